@@ -0,0 +1,39 @@
+import { App, FuzzyMatch, FuzzySuggestModal } from "obsidian";
+import { BranchInfo } from "./git";
+import { t } from "./i18n";
+
+/** Fuzzy picker over local and remote branches */
+export class BranchSuggestModal extends FuzzySuggestModal<BranchInfo> {
+	constructor(
+		app: App,
+		private branches: BranchInfo[],
+		placeholder: string,
+		private onChoose: (branch: BranchInfo) => void
+	) {
+		super(app);
+		this.setPlaceholder(placeholder);
+	}
+
+	getItems(): BranchInfo[] {
+		return this.branches;
+	}
+
+	getItemText(branch: BranchInfo): string {
+		return branch.name;
+	}
+
+	renderSuggestion(match: FuzzyMatch<BranchInfo>, el: HTMLElement): void {
+		super.renderSuggestion(match, el);
+		const i18n = t();
+		const branch = match.item;
+		if (branch.current) {
+			el.createSpan({ cls: "auto-git-branch-tag", text: i18n.branchCurrentTag });
+		} else if (branch.remote) {
+			el.createSpan({ cls: "auto-git-branch-tag", text: i18n.branchRemoteTag });
+		}
+	}
+
+	onChooseItem(branch: BranchInfo): void {
+		this.onChoose(branch);
+	}
+}
@@ -0,0 +1,333 @@
+import { editorInfoField } from "obsidian";
+import { EditorState, Extension, RangeSet, RangeSetBuilder, StateEffect, StateField } from "@codemirror/state";
+import { EditorView, gutter, GutterMarker, PluginValue, showTooltip, Tooltip, ViewPlugin, ViewUpdate } from "@codemirror/view";
+import { diffLines } from "./diff";
+import { t } from "./i18n";
+
+export type LineChangeType = "added" | "modified" | "deleted";
+
+/** Consecutive changed lines in the editor compared to the committed version */
+export interface ChangeHunk {
+	type: LineChangeType;
+	/** First changed line in the editor (1-based); for deletions, the line the removed text preceded */
+	newStart: number;
+	newCount: number;
+	/** Committed lines this hunk replaces */
+	oldLines: string[];
+}
+
+interface ChangeState {
+	/** Committed content, or null when the file has no baseline to compare against */
+	base: string | null;
+	hunks: ChangeHunk[];
+	/** The doc changed since the hunks were computed; a recompute is pending */
+	stale: boolean;
+}
+
+const setBaseText = StateEffect.define<string | null>();
+const setHunks = StateEffect.define<ChangeHunk[]>();
+const setHoveredHunk = StateEffect.define<ChangeHunk | null>();
+
+function computeHunks(base: string, doc: string): ChangeHunk[] {
+	const hunks: ChangeHunk[] = [];
+	let current: ChangeHunk | null = null;
+	let nextNewLine = 1;
+
+	for (const line of diffLines(base, doc)) {
+		if (line.type === "equal") {
+			current = null;
+			nextNewLine = (line.newLine ?? nextNewLine) + 1;
+			continue;
+		}
+		if (!current) {
+			current = { type: "deleted", newStart: nextNewLine, newCount: 0, oldLines: [] };
+			hunks.push(current);
+		}
+		if (line.type === "delete") {
+			current.oldLines.push(line.text);
+		} else {
+			current.newCount++;
+			nextNewLine = (line.newLine ?? nextNewLine) + 1;
+		}
+	}
+
+	hunks.forEach((hunk) => {
+		if (hunk.newCount === 0) hunk.type = "deleted";
+		else hunk.type = hunk.oldLines.length === 0 ? "added" : "modified";
+	});
+	return hunks;
+}
+
+// Diffing runs after typing pauses, not on every keystroke
+const RECOMPUTE_DELAY_MS = 300;
+
+// Hunks come from ChangeGutterView, which diffs outside the transaction
+const changeField = StateField.define<ChangeState>({
+	create: () => ({ base: null, hunks: [], stale: false }),
+	update(value, tr) {
+		let next = tr.docChanged && value.base !== null ? { ...value, stale: true } : value;
+		for (const effect of tr.effects) {
+			if (effect.is(setBaseText)) next = { base: effect.value, hunks: [], stale: effect.value !== null };
+			else if (effect.is(setHunks)) next = { ...next, hunks: effect.value, stale: false };
+		}
+		return next;
+	},
+});
+
+const hoverField = StateField.define<ChangeHunk | null>({
+	create: () => null,
+	update(value, tr) {
+		for (const effect of tr.effects) {
+			if (effect.is(setHoveredHunk)) return effect.value;
+		}
+		return tr.docChanged ? null : value;
+	},
+	provide: (field) => showTooltip.compute([field], (state) => {
+		const hunk = state.field(field);
+		return hunk ? hunkTooltip(hunk, state) : null;
+	}),
+});
+
+class ChangeMarker extends GutterMarker {
+	constructor(readonly hunk: ChangeHunk) {
+		super();
+	}
+
+	eq(other: ChangeMarker): boolean {
+		return other.hunk === this.hunk;
+	}
+
+	toDOM(): Node {
+		const el = document.createElement("div");
+		el.className = `auto-git-change-marker mod-${this.hunk.type}`;
+		return el;
+	}
+}
+
+function markerLine(hunk: ChangeHunk, state: EditorState): number {
+	// Deletions are drawn on the line above the removed text
+	const line = hunk.type === "deleted" ? hunk.newStart - 1 : hunk.newStart;
+	return Math.min(Math.max(line, 1), state.doc.lines);
+}
+
+function buildMarkers(state: EditorState): RangeSet<GutterMarker> {
+	const builder = new RangeSetBuilder<GutterMarker>();
+	const { hunks } = state.field(changeField);
+	let lastPos = -1;
+
+	for (const hunk of hunks) {
+		const first = markerLine(hunk, state);
+		const last = hunk.type === "deleted" ? first : Math.min(hunk.newStart + hunk.newCount - 1, state.doc.lines);
+		const marker = new ChangeMarker(hunk);
+		for (let n = first; n <= last; n++) {
+			const pos = state.doc.line(n).from;
+			// A deletion right after another hunk shares its line; keep the first marker
+			if (pos <= lastPos) continue;
+			builder.add(pos, pos, marker);
+			lastPos = pos;
+		}
+	}
+	return builder.finish();
+}
+
+// Hide the hover tooltip a moment after the pointer leaves both the marker and the tooltip
+const hideTimers = new WeakMap<EditorView, number>();
+
+function cancelHide(view: EditorView): void {
+	const timer = hideTimers.get(view);
+	if (timer !== undefined) {
+		window.clearTimeout(timer);
+		hideTimers.delete(view);
+	}
+}
+
+function scheduleHide(view: EditorView): void {
+	cancelHide(view);
+	hideTimers.set(view, window.setTimeout(() => {
+		hideTimers.delete(view);
+		if (view.state.field(hoverField, false)) {
+			view.dispatch({ effects: setHoveredHunk.of(null) });
+		}
+	}, 300));
+}
+
+function hunkTooltip(hunk: ChangeHunk, state: EditorState): Tooltip {
+	return {
+		pos: state.doc.line(markerLine(hunk, state)).from,
+		above: false,
+		create: (view) => {
+			const i18n = t();
+			const dom = document.createElement("div");
+			dom.className = "auto-git-change-tooltip";
+
+			if (hunk.oldLines.length > 0) {
+				const pre = dom.createEl("pre", { cls: "auto-git-change-original" });
+				pre.setText(hunk.oldLines.join("\n"));
+			} else {
+				dom.createDiv({ cls: "auto-git-change-empty", text: i18n.gutterAddedLines });
+			}
+
+			const revertBtn = dom.createEl("button", { text: i18n.gutterRevertHunk });
+			revertBtn.addEventListener("click", () => {
+				cancelHide(view);
+				revertHunk(view, hunk);
+			});
+
+			dom.addEventListener("mouseenter", () => cancelHide(view));
+			dom.addEventListener("mouseleave", () => scheduleHide(view));
+			return { dom };
+		},
+	};
+}
+
+function revertHunk(view: EditorView, hunk: ChangeHunk): void {
+	const { doc } = view.state;
+	const original = hunk.oldLines.join("\n");
+
+	if (hunk.newCount === 0) {
+		if (hunk.newStart <= doc.lines) {
+			view.dispatch({
+				changes: { from: doc.line(hunk.newStart).from, insert: `${original}\n` },
+				effects: setHoveredHunk.of(null),
+			});
+		} else {
+			view.dispatch({
+				changes: { from: doc.length, insert: `${doc.length > 0 ? "\n" : ""}${original}` },
+				effects: setHoveredHunk.of(null),
+			});
+		}
+		return;
+	}
+
+	let from = doc.line(hunk.newStart).from;
+	let to = doc.line(Math.min(hunk.newStart + hunk.newCount - 1, doc.lines)).to;
+	if (hunk.oldLines.length === 0) {
+		// Drop the added lines together with their line break
+		if (to < doc.length) to++;
+		else if (from > 0) from--;
+	}
+	view.dispatch({ changes: { from, to, insert: original }, effects: setHoveredHunk.of(null) });
+}
+
+const changeGutter = gutter({
+	class: "auto-git-change-gutter",
+	markers: (view) => buildMarkers(view.state),
+	domEventHandlers: {
+		mouseover: (view, line) => {
+			// Line numbers of stale hunks may no longer match the doc
+			if (view.state.field(changeField).stale) return false;
+			const hunk = hunkAtLine(view, line.from);
+			cancelHide(view);
+			if (hunk && view.state.field(hoverField) !== hunk) {
+				view.dispatch({ effects: setHoveredHunk.of(hunk) });
+			}
+			return false;
+		},
+		mouseout: (view) => {
+			scheduleHide(view);
+			return false;
+		},
+	},
+});
+
+function hunkAtLine(view: EditorView, pos: number): ChangeHunk | null {
+	const lineNo = view.state.doc.lineAt(pos).number;
+	const { hunks } = view.state.field(changeField);
+	return hunks.find((hunk) => {
+		const first = markerLine(hunk, view.state);
+		const last = hunk.type === "deleted" ? first : hunk.newStart + hunk.newCount - 1;
+		return lineNo >= first && lineNo <= last;
+	}) ?? null;
+}
+
+/** Loads committed content for each open editor and keeps the gutters in sync */
+export class ChangeGutterController {
+	private views = new Set<ChangeGutterView>();
+
+	constructor(private loadBase: (path: string) => Promise<string | null>) {}
+
+	extension(): Extension {
+		return [
+			changeField,
+			hoverField,
+			changeGutter,
+			ViewPlugin.define((view) => new ChangeGutterView(view, this)),
+		];
+	}
+
+	/** Re-read the committed version, e.g. after a commit, pull or revert */
+	refresh(): void {
+		this.views.forEach((view) => view.reload());
+	}
+
+	register(view: ChangeGutterView): void {
+		this.views.add(view);
+	}
+
+	unregister(view: ChangeGutterView): void {
+		this.views.delete(view);
+	}
+
+	load(path: string): Promise<string | null> {
+		return this.loadBase(path);
+	}
+}
+
+class ChangeGutterView implements PluginValue {
+	private path: string | null = null;
+	private destroyed = false;
+	private recomputeTimer: number | null = null;
+
+	constructor(private view: EditorView, private controller: ChangeGutterController) {
+		controller.register(this);
+		this.reload();
+	}
+
+	update(update: ViewUpdate): void {
+		if (filePath(update.state) !== this.path) {
+			this.reload();
+		} else if (update.docChanged && update.state.field(changeField).base !== null) {
+			this.scheduleRecompute();
+		}
+	}
+
+	private scheduleRecompute(): void {
+		this.cancelRecompute();
+		this.recomputeTimer = window.setTimeout(() => {
+			this.recomputeTimer = null;
+			const { base } = this.view.state.field(changeField);
+			if (this.destroyed || base === null) return;
+			this.view.dispatch({ effects: setHunks.of(computeHunks(base, this.view.state.doc.toString())) });
+		}, RECOMPUTE_DELAY_MS);
+	}
+
+	private cancelRecompute(): void {
+		if (this.recomputeTimer !== null) window.clearTimeout(this.recomputeTimer);
+		this.recomputeTimer = null;
+	}
+
+	reload(): void {
+		const path = filePath(this.view.state);
+		this.path = path;
+
+		// Always dispatch asynchronously: reload can run inside a view update
+		const base = path ? this.controller.load(path).catch(() => null) : Promise.resolve(null);
+		void base.then((text) => {
+			if (this.destroyed || this.path !== path) return;
+			this.cancelRecompute();
+			const hunks = text === null ? [] : computeHunks(text, this.view.state.doc.toString());
+			this.view.dispatch({ effects: [setBaseText.of(text), setHunks.of(hunks)] });
+		});
+	}
+
+	destroy(): void {
+		this.destroyed = true;
+		this.cancelRecompute();
+		cancelHide(this.view);
+		this.controller.unregister(this);
+	}
+}
+
+function filePath(state: EditorState): string | null {
+	return state.field(editorInfoField, false)?.file?.path ?? null;
+}
@@ -0,0 +1,108 @@
+import { App, Modal } from "obsidian";
+import { ChangedFile } from "./git";
+import { t } from "./i18n";
+
+export interface CommitModalOptions {
+	files: ChangedFile[];
+	/** Pre-filled message, usually the rendered commit template */
+	message: string;
+	onCommit: (files: ChangedFile[], message: string) => void;
+	onShowDiff?: (path: string) => void;
+	onClose?: () => void;
+}
+
+/** Pick which changed files go into a manual commit and edit its message */
+export class CommitModal extends Modal {
+	private selected: Set<string>;
+
+	constructor(app: App, private options: CommitModalOptions) {
+		super(app);
+		this.selected = new Set(options.files.map((f) => f.path));
+	}
+
+	onOpen() {
+		const i18n = t();
+		const { contentEl } = this;
+		this.modalEl.addClass("auto-git-commit-modal");
+
+		contentEl.createEl("h2", { text: i18n.commitDialogTitle });
+
+		const toolbar = contentEl.createDiv({ cls: "auto-git-commit-toolbar" });
+		const selectAll = toolbar.createEl("input", { type: "checkbox" });
+		toolbar.createSpan({ text: i18n.commitDialogSelectAll });
+		const countEl = toolbar.createSpan({ cls: "auto-git-commit-count" });
+
+		const listEl = contentEl.createDiv({ cls: "auto-git-commit-files" });
+		const checkboxes: HTMLInputElement[] = [];
+		this.options.files.forEach((file) => {
+			const row = listEl.createEl("label", { cls: "auto-git-commit-file" });
+			const checkbox = row.createEl("input", { type: "checkbox" });
+			checkbox.checked = true;
+			checkbox.addEventListener("change", () => {
+				if (checkbox.checked) this.selected.add(file.path);
+				else this.selected.delete(file.path);
+				update();
+			});
+			checkboxes.push(checkbox);
+
+			row.createSpan({ cls: `auto-git-commit-status mod-${file.status}`, text: file.status });
+			row.createSpan({
+				cls: "auto-git-commit-path",
+				text: file.origPath ? `${file.origPath} → ${file.path}` : file.path,
+			});
+
+			const onShowDiff = this.options.onShowDiff;
+			if (onShowDiff && file.status !== "D") {
+				const diffLink = row.createEl("a", { text: i18n.diffShowLink, cls: "revert-file-diff", href: "#" });
+				diffLink.addEventListener("click", (evt) => {
+					evt.preventDefault();
+					onShowDiff(file.path);
+				});
+			}
+		});
+
+		selectAll.addEventListener("change", () => {
+			checkboxes.forEach((checkbox, i) => {
+				checkbox.checked = selectAll.checked;
+				const path = this.options.files[i].path;
+				if (selectAll.checked) this.selected.add(path);
+				else this.selected.delete(path);
+			});
+			update();
+		});
+
+		const messageEl = contentEl.createEl("textarea", { cls: "auto-git-commit-message" });
+		messageEl.value = this.options.message;
+		messageEl.rows = 5;
+		messageEl.addEventListener("input", () => update());
+
+		const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+
+		buttonContainer.createEl("button", { text: i18n.revertCancelButton }).addEventListener("click", () => {
+			this.close();
+		});
+
+		const commitBtn = buttonContainer.createEl("button", { text: i18n.commitDialogButton, cls: "mod-cta" });
+		commitBtn.addEventListener("click", () => {
+			const message = messageEl.value.trim();
+			const files = this.options.files.filter((f) => this.selected.has(f.path));
+			if (!message || files.length === 0) return;
+			this.close();
+			this.options.onCommit(files, message);
+		});
+
+		const update = () => {
+			const count = this.selected.size;
+			selectAll.checked = count === this.options.files.length;
+			selectAll.indeterminate = count > 0 && count < this.options.files.length;
+			countEl.setText(i18n.commitDialogSelected(count, this.options.files.length));
+			commitBtn.disabled = count === 0 || !messageEl.value.trim();
+		};
+		update();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.options.onClose?.();
+	}
+}
@@ -0,0 +1,78 @@
+export type ConfigCategory =
+	| "plugins"
+	| "themes"
+	| "snippets"
+	| "hotkeys"
+	| "appearance"
+	| "core"
+	| "workspace"
+	| "caches";
+
+export type ConfigSyncSettings = Record<ConfigCategory, boolean>;
+
+/** Paths inside the config folder per category; "core" covers everything not listed here */
+const CATEGORY_PATHS: Record<Exclude<ConfigCategory, "core">, string[]> = {
+	plugins: ["plugins/", "community-plugins.json"],
+	themes: ["themes/"],
+	snippets: ["snippets/"],
+	hotkeys: ["hotkeys.json"],
+	appearance: ["appearance.json"],
+	workspace: ["workspace.json", "workspace-mobile.json", "workspaces.json"],
+	caches: ["cache/", "plugins/*/cache/"],
+};
+
+export const CONFIG_CATEGORIES: ConfigCategory[] = [
+	"plugins",
+	"themes",
+	"snippets",
+	"hotkeys",
+	"appearance",
+	"core",
+	"workspace",
+	"caches",
+];
+
+// Same as the old "ignore config directory" default: nothing from the config folder is committed
+export const DEFAULT_CONFIG_SYNC: ConfigSyncSettings = {
+	plugins: false,
+	themes: false,
+	snippets: false,
+	hotkeys: false,
+	appearance: false,
+	core: false,
+	workspace: false,
+	caches: false,
+};
+
+/**
+ * Gitignore-style rules (relative to the vault root) that keep the unsynced
+ * categories out of git. Later lines win, as in .gitignore.
+ */
+export function configIgnoreEntries(configDir: string, sync: ConfigSyncSettings): string[] {
+	const dir = configDir.replace(/\/+$/, "");
+	if (CONFIG_CATEGORIES.every((category) => sync[category])) return [];
+	if (CONFIG_CATEGORIES.every((category) => !sync[category])) return [`${dir}/`];
+
+	const entries: string[] = [];
+	const categories = Object.entries(CATEGORY_PATHS) as [Exclude<ConfigCategory, "core">, string[]][];
+
+	if (sync.core) {
+		categories.forEach(([category, paths]) => {
+			if (!sync[category]) paths.forEach((p) => entries.push(`${dir}/${p}`));
+		});
+	} else {
+		// Ignore the folder's contents, then re-include what is synced
+		entries.push(`${dir}/*`);
+		categories.forEach(([category, paths]) => {
+			if (sync[category]) paths.forEach((p) => entries.push(`!${dir}/${p}`));
+		});
+		// Rules nested inside a re-included folder still need to be excluded again
+		categories.forEach(([category, paths]) => {
+			if (!sync[category]) {
+				paths.filter((p) => p.replace(/\/$/, "").includes("/")).forEach((p) => entries.push(`${dir}/${p}`));
+			}
+		});
+	}
+
+	return entries;
+}
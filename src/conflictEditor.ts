@@ -0,0 +1,237 @@
+import { editorInfoField } from "obsidian";
+import { EditorState, Extension, RangeSetBuilder, StateEffect, StateField, Text } from "@codemirror/state";
+import { Decoration, DecorationSet, EditorView, PluginValue, ViewPlugin, ViewUpdate, WidgetType } from "@codemirror/view";
+import { hasConflictMarkers } from "./git";
+import { t } from "./i18n";
+
+/** Line numbers (1-based) of the markers around one conflict */
+interface ConflictBlock {
+	start: number;
+	/** "|||||||" line opening the common ancestor's text in diff3 style, or null */
+	base: number | null;
+	separator: number;
+	end: number;
+}
+
+type ConflictChoice = "current" | "incoming" | "both";
+
+interface ConflictState {
+	/** Only files git lists as conflicted are scanned for markers */
+	tracking: boolean;
+	blocks: ConflictBlock[];
+	decorations: DecorationSet;
+}
+
+const setTracking = StateEffect.define<boolean>();
+
+const START_MARKER = /^<{7}(?: |$)/;
+const BASE_MARKER = /^\|{7}(?: |$)/;
+const SEPARATOR_MARKER = /^={7}$/;
+const END_MARKER = /^>{7}(?: |$)/;
+
+function findConflictBlocks(doc: Text): ConflictBlock[] {
+	const blocks: ConflictBlock[] = [];
+	let start: number | null = null;
+	let base: number | null = null;
+	let separator: number | null = null;
+
+	for (let n = 1; n <= doc.lines; n++) {
+		const text = doc.line(n).text;
+		if (START_MARKER.test(text)) {
+			// A new start marker abandons an unfinished block
+			start = n;
+			base = null;
+			separator = null;
+		} else if (start === null) {
+			continue;
+		} else if (separator === null && BASE_MARKER.test(text)) {
+			base = n;
+		} else if (separator === null && SEPARATOR_MARKER.test(text)) {
+			separator = n;
+		} else if (separator !== null && END_MARKER.test(text)) {
+			blocks.push({ start, base, separator, end: n });
+			start = null;
+		}
+	}
+	return blocks;
+}
+
+function lineRange(doc: Text, first: number, last: number): string[] {
+	const lines: string[] = [];
+	for (let n = first; n <= last; n++) lines.push(doc.line(n).text);
+	return lines;
+}
+
+function resolveBlock(view: EditorView, block: ConflictBlock, choice: ConflictChoice): void {
+	const { doc } = view.state;
+	const current = lineRange(doc, block.start + 1, (block.base ?? block.separator) - 1);
+	const incoming = lineRange(doc, block.separator + 1, block.end - 1);
+	const kept = choice === "current" ? current : choice === "incoming" ? incoming : [...current, ...incoming];
+
+	let from = doc.line(block.start).from;
+	let to = doc.line(block.end).to;
+	if (kept.length === 0) {
+		// Nothing left of the block: drop its line break as well
+		if (to < doc.length) to++;
+		else if (from > 0) from--;
+	}
+	view.dispatch({ changes: { from, to, insert: kept.join("\n") } });
+}
+
+class ConflictActionsWidget extends WidgetType {
+	eq(): boolean {
+		// All action bars look the same; the block is looked up on click
+		return true;
+	}
+
+	toDOM(view: EditorView): HTMLElement {
+		const i18n = t();
+		const dom = document.createElement("div");
+		dom.className = "auto-git-conflict-actions";
+
+		const action = (text: string, choice: ConflictChoice) => {
+			const button = dom.createEl("button", { text });
+			button.addEventListener("click", (evt) => {
+				evt.preventDefault();
+				const line = view.state.doc.lineAt(view.posAtDOM(dom)).number;
+				const block = view.state.field(conflictField).blocks.find((b) => b.start === line);
+				if (block) resolveBlock(view, block, choice);
+			});
+		};
+		action(i18n.conflictAcceptCurrent, "current");
+		action(i18n.conflictAcceptIncoming, "incoming");
+		action(i18n.conflictAcceptBoth, "both");
+		return dom;
+	}
+
+	ignoreEvent(): boolean {
+		return false;
+	}
+}
+
+const actionsWidget = Decoration.widget({ widget: new ConflictActionsWidget(), side: -1, block: true });
+const markerLine = Decoration.line({ class: "auto-git-conflict-marker" });
+const currentLine = Decoration.line({ class: "auto-git-conflict-line mod-current" });
+const baseLine = Decoration.line({ class: "auto-git-conflict-line mod-base" });
+const incomingLine = Decoration.line({ class: "auto-git-conflict-line mod-incoming" });
+
+function buildDecorations(doc: Text, blocks: ConflictBlock[]): DecorationSet {
+	const builder = new RangeSetBuilder<Decoration>();
+	for (const block of blocks) {
+		const startPos = doc.line(block.start).from;
+		builder.add(startPos, startPos, actionsWidget);
+		for (let n = block.start; n <= block.end; n++) {
+			let decoration = incomingLine;
+			if (n === block.start || n === block.base || n === block.separator || n === block.end) decoration = markerLine;
+			else if (n < (block.base ?? block.separator)) decoration = currentLine;
+			else if (n < block.separator) decoration = baseLine;
+			const pos = doc.line(n).from;
+			builder.add(pos, pos, decoration);
+		}
+	}
+	return builder.finish();
+}
+
+const conflictField = StateField.define<ConflictState>({
+	create: () => ({ tracking: false, blocks: [], decorations: Decoration.none }),
+	update(value, tr) {
+		let tracking = value.tracking;
+		let changed = tr.docChanged;
+		for (const effect of tr.effects) {
+			if (effect.is(setTracking)) {
+				tracking = effect.value;
+				changed = true;
+			}
+		}
+		if (!changed) return value;
+		if (!tracking) return { tracking, blocks: [], decorations: Decoration.none };
+		const blocks = findConflictBlocks(tr.newDoc);
+		return { tracking, blocks, decorations: buildDecorations(tr.newDoc, blocks) };
+	},
+	provide: (field) => EditorView.decorations.from(field, (value) => value.decorations),
+});
+
+/** Turns conflict markers in conflicted files into highlighted blocks with accept buttons */
+export class ConflictEditorController {
+	private views = new Set<ConflictEditorView>();
+
+	constructor(
+		private isConflicted: (path: string) => boolean,
+		private onResolved: (path: string) => void
+	) {}
+
+	extension(): Extension {
+		return [
+			conflictField,
+			ViewPlugin.define((view) => new ConflictEditorView(view, this)),
+		];
+	}
+
+	/** Re-check which open files are conflicted, e.g. after a pull or a resolve */
+	refresh(): void {
+		this.views.forEach((view) => view.reload());
+	}
+
+	register(view: ConflictEditorView): void {
+		this.views.add(view);
+	}
+
+	unregister(view: ConflictEditorView): void {
+		this.views.delete(view);
+	}
+
+	conflicted(path: string): boolean {
+		return this.isConflicted(path);
+	}
+
+	resolved(path: string): void {
+		this.onResolved(path);
+	}
+}
+
+class ConflictEditorView implements PluginValue {
+	private path: string | null = null;
+	private destroyed = false;
+
+	constructor(private view: EditorView, private controller: ConflictEditorController) {
+		controller.register(this);
+		this.reload();
+	}
+
+	update(update: ViewUpdate): void {
+		if (filePath(update.state) !== this.path) {
+			this.reload();
+			return;
+		}
+
+		// The last block went away in an edit and no stray markers are left: the file is resolved
+		const before = update.startState.field(conflictField);
+		const after = update.state.field(conflictField);
+		if (this.path && update.docChanged && after.tracking && before.blocks.length > 0 && after.blocks.length === 0
+			&& !hasConflictMarkers(update.state.doc.toString())) {
+			this.controller.resolved(this.path);
+		}
+	}
+
+	reload(): void {
+		const path = filePath(this.view.state);
+		this.path = path;
+
+		// Always dispatch asynchronously: reload can run inside a view update
+		window.setTimeout(() => {
+			if (this.destroyed || this.path !== path) return;
+			const tracking = path !== null && this.controller.conflicted(path);
+			if (this.view.state.field(conflictField).tracking === tracking) return;
+			this.view.dispatch({ effects: setTracking.of(tracking) });
+		});
+	}
+
+	destroy(): void {
+		this.destroyed = true;
+		this.controller.unregister(this);
+	}
+}
+
+function filePath(state: EditorState): string | null {
+	return state.field(editorInfoField, false)?.file?.path ?? null;
+}
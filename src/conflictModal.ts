@@ -0,0 +1,101 @@
+import { App, Modal } from "obsidian";
+import { ConflictSide } from "./git";
+import { t } from "./i18n";
+
+export interface ConflictModalOptions {
+	files: string[];
+	/** Each action resolves to whether the file is resolved now */
+	onKeep: (path: string, side: ConflictSide) => Promise<boolean>;
+	onMarkResolved: (path: string) => Promise<boolean>;
+	onOpenFile: (path: string) => void;
+	onShowDiff: (path: string) => void;
+	/** Every listed file is resolved: conclude the merge or continue the rebase */
+	onAllResolved: () => void;
+}
+
+/** Conflicted files from a pull, resolved one by one */
+export class ConflictModal extends Modal {
+	private remaining: string[];
+	private busy = false;
+
+	constructor(app: App, private options: ConflictModalOptions) {
+		super(app);
+		this.remaining = [...options.files];
+	}
+
+	onOpen() {
+		this.render();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private render() {
+		const i18n = t();
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: i18n.conflictModalTitle });
+		contentEl.createEl("p", { text: this.remaining.length > 0 ? i18n.conflictModalDesc : i18n.conflictAllResolved });
+
+		const listEl = contentEl.createEl("ul", { cls: "revert-file-list auto-git-conflict-list" });
+		this.remaining.forEach((filePath) => {
+			const itemEl = listEl.createEl("li");
+			itemEl.createSpan({ cls: "auto-git-conflict-path", text: filePath });
+
+			const action = (text: string, run: () => Promise<boolean>) => {
+				const link = itemEl.createEl("a", { text, cls: "revert-file-diff", href: "#" });
+				link.addEventListener("click", (evt) => {
+					evt.preventDefault();
+					void this.runAction(filePath, run);
+				});
+			};
+			action(i18n.conflictKeepLocal, () => this.options.onKeep(filePath, "local"));
+			action(i18n.conflictKeepRemote, () => this.options.onKeep(filePath, "remote"));
+
+			const openLink = itemEl.createEl("a", { text: i18n.conflictOpenLink, cls: "revert-file-diff", href: "#" });
+			openLink.addEventListener("click", (evt) => {
+				evt.preventDefault();
+				this.close();
+				this.options.onOpenFile(filePath);
+			});
+
+			const diffLink = itemEl.createEl("a", { text: i18n.conflictCompareLink, cls: "revert-file-diff", href: "#" });
+			diffLink.addEventListener("click", (evt) => {
+				evt.preventDefault();
+				this.options.onShowDiff(filePath);
+			});
+
+			action(i18n.conflictMarkResolvedLink, () => this.options.onMarkResolved(filePath));
+		});
+
+		const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+
+		buttonContainer.createEl("button", { text: i18n.revertCancelButton }).addEventListener("click", () => {
+			this.close();
+		});
+
+		if (this.remaining.length === 0) {
+			const continueBtn = buttonContainer.createEl("button", { text: i18n.conflictContinueButton, cls: "mod-cta" });
+			continueBtn.addEventListener("click", () => {
+				this.close();
+				this.options.onAllResolved();
+			});
+		}
+	}
+
+	private async runAction(filePath: string, run: () => Promise<boolean>): Promise<void> {
+		// One git operation at a time, so a double click can't resolve a file twice
+		if (this.busy) return;
+		this.busy = true;
+		try {
+			if (await run()) {
+				this.remaining = this.remaining.filter((p) => p !== filePath);
+				this.render();
+			}
+		} finally {
+			this.busy = false;
+		}
+	}
+}
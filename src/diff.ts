@@ -0,0 +1,188 @@
+export type DiffLineType = "equal" | "add" | "delete";
+
+export interface DiffLine {
+	type: DiffLineType;
+	text: string;
+	/** 1-based line number in the old text (equal/delete) */
+	oldLine?: number;
+	/** 1-based line number in the new text (equal/add) */
+	newLine?: number;
+}
+
+export interface DiffHunk {
+	oldStart: number;
+	oldLines: number;
+	newStart: number;
+	newLines: number;
+	lines: DiffLine[];
+}
+
+// Beyond this many edits the middle section is reported as fully replaced instead of diffed precisely.
+// The backtrace keeps O(D²) numbers, so this also bounds memory on large rewrites
+const MAX_EDIT_DISTANCE = 500;
+
+export function splitLines(text: string): string[] {
+	if (text === "") return [];
+	const lines = text.split(/\r?\n/);
+	// A trailing newline terminates the last line rather than starting a new one
+	if (lines[lines.length - 1] === "") lines.pop();
+	return lines;
+}
+
+/** Line-based Myers diff of two texts */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+	const a = splitLines(oldText);
+	const b = splitLines(newText);
+
+	let prefix = 0;
+	while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+	let suffix = 0;
+	while (
+		suffix < a.length - prefix &&
+		suffix < b.length - prefix &&
+		a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+	) suffix++;
+
+	const result: DiffLine[] = [];
+	for (let i = 0; i < prefix; i++) {
+		result.push({ type: "equal", text: a[i], oldLine: i + 1, newLine: i + 1 });
+	}
+
+	const midA = a.slice(prefix, a.length - suffix);
+	const midB = b.slice(prefix, b.length - suffix);
+	for (const op of myers(midA, midB)) {
+		if (op.type === "equal") {
+			result.push({ type: "equal", text: midA[op.oldIndex], oldLine: prefix + op.oldIndex + 1, newLine: prefix + op.newIndex + 1 });
+		} else if (op.type === "delete") {
+			result.push({ type: "delete", text: midA[op.oldIndex], oldLine: prefix + op.oldIndex + 1 });
+		} else {
+			result.push({ type: "add", text: midB[op.newIndex], newLine: prefix + op.newIndex + 1 });
+		}
+	}
+
+	for (let i = suffix; i > 0; i--) {
+		const oldIndex = a.length - i;
+		const newIndex = b.length - i;
+		result.push({ type: "equal", text: a[oldIndex], oldLine: oldIndex + 1, newLine: newIndex + 1 });
+	}
+
+	return result;
+}
+
+interface EditOp {
+	type: DiffLineType;
+	oldIndex: number;
+	newIndex: number;
+}
+
+function myers(a: string[], b: string[]): EditOp[] {
+	const n = a.length;
+	const m = b.length;
+	const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+	const offset = max + 1;
+	const v = new Array<number>(2 * max + 3).fill(0);
+	const trace: number[][] = [];
+
+	let found = false;
+	for (let d = 0; d <= max && !found; d++) {
+		// Only diagonals -(d + 1)..d + 1 are read back for this step; index them from 0
+		trace.push(v.slice(offset - d - 1, offset + d + 2));
+		for (let k = -d; k <= d; k += 2) {
+			let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+				? v[offset + k + 1]
+				: v[offset + k - 1] + 1;
+			let y = x - k;
+			while (x < n && y < m && a[x] === b[y]) {
+				x++;
+				y++;
+			}
+			v[offset + k] = x;
+			if (x >= n && y >= m) {
+				found = true;
+				break;
+			}
+		}
+	}
+
+	if (!found) {
+		return [
+			...a.map((_, i) => ({ type: "delete" as const, oldIndex: i, newIndex: 0 })),
+			...b.map((_, i) => ({ type: "add" as const, oldIndex: n, newIndex: i })),
+		];
+	}
+
+	// Walk the trace backwards to recover the edit script
+	const ops: EditOp[] = [];
+	let x = n;
+	let y = m;
+	for (let d = trace.length - 1; d >= 0; d--) {
+		const vd = trace[d];
+		const base = d + 1;
+		const k = x - y;
+		const prevK = k === -d || (k !== d && vd[base + k - 1] < vd[base + k + 1]) ? k + 1 : k - 1;
+		const prevX = vd[base + prevK];
+		const prevY = prevX - prevK;
+
+		while (x > prevX && y > prevY) {
+			x--;
+			y--;
+			ops.push({ type: "equal", oldIndex: x, newIndex: y });
+		}
+		if (d > 0) {
+			if (x === prevX) {
+				y--;
+				ops.push({ type: "add", oldIndex: x, newIndex: y });
+			} else {
+				x--;
+				ops.push({ type: "delete", oldIndex: x, newIndex: y });
+			}
+		}
+	}
+
+	return ops.reverse();
+}
+
+/** Group changed lines into hunks with surrounding context, like `git diff -U<context>` */
+export function buildHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+	const hunks: DiffHunk[] = [];
+	let current: { start: number; end: number } | null = null;
+	const ranges: { start: number; end: number }[] = [];
+
+	lines.forEach((line, i) => {
+		if (line.type === "equal") return;
+		const start = Math.max(0, i - context);
+		const end = Math.min(lines.length - 1, i + context);
+		if (current && start <= current.end + 1) {
+			current.end = end;
+		} else {
+			current = { start, end };
+			ranges.push(current);
+		}
+	});
+
+	for (const range of ranges) {
+		const hunkLines = lines.slice(range.start, range.end + 1);
+		const firstOld = hunkLines.find((l) => l.oldLine !== undefined)?.oldLine;
+		const firstNew = hunkLines.find((l) => l.newLine !== undefined)?.newLine;
+		const oldLines = hunkLines.filter((l) => l.type !== "add").length;
+		const newLines = hunkLines.filter((l) => l.type !== "delete").length;
+		hunks.push({
+			// git reports the line before an empty range as its start
+			oldStart: firstOld ?? previousLine(lines, range.start, "oldLine"),
+			oldLines,
+			newStart: firstNew ?? previousLine(lines, range.start, "newLine"),
+			newLines,
+			lines: hunkLines,
+		});
+	}
+
+	return hunks;
+}
+
+function previousLine(lines: DiffLine[], index: number, key: "oldLine" | "newLine"): number {
+	for (let i = index - 1; i >= 0; i--) {
+		const value = lines[i][key];
+		if (value !== undefined) return value;
+	}
+	return 0;
+}
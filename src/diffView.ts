@@ -0,0 +1,261 @@
+import { App, DropdownComponent, Modal, moment } from "obsidian";
+import type AutoGitPlugin from "./main";
+import { CommitInfo, ConflictVersions, getConflictVersions, getFileHistory, readFileAtRevision } from "./git";
+import { buildHunks, diffLines, DiffHunk, DiffLine } from "./diff";
+import { describeError, t } from "./i18n";
+
+export type DiffMode = "unified" | "split";
+
+const HEAD = "HEAD";
+
+function renderUnified(table: HTMLElement, hunk: DiffHunk): void {
+	hunk.lines.forEach((line) => {
+		const row = table.createEl("tr", { cls: `auto-git-diff-line mod-${line.type}` });
+		row.createEl("td", { cls: "auto-git-diff-num", text: line.oldLine !== undefined ? String(line.oldLine) : "" });
+		row.createEl("td", { cls: "auto-git-diff-num", text: line.newLine !== undefined ? String(line.newLine) : "" });
+		row.createEl("td", { cls: "auto-git-diff-sign", text: line.type === "add" ? "+" : line.type === "delete" ? "-" : " " });
+		row.createEl("td", { cls: "auto-git-diff-text", text: line.text });
+	});
+}
+
+function renderSplit(table: HTMLElement, hunk: DiffHunk): void {
+	const { lines } = hunk;
+	let i = 0;
+	while (i < lines.length) {
+		if (lines[i].type === "equal") {
+			splitRow(table, lines[i], lines[i]);
+			i++;
+			continue;
+		}
+
+		// Pair a block of deletions with the additions that replace it
+		const deleted: DiffLine[] = [];
+		const added: DiffLine[] = [];
+		while (i < lines.length && lines[i].type === "delete") deleted.push(lines[i++]);
+		while (i < lines.length && lines[i].type === "add") added.push(lines[i++]);
+		for (let j = 0; j < Math.max(deleted.length, added.length); j++) {
+			splitRow(table, deleted[j] ?? null, added[j] ?? null);
+		}
+	}
+}
+
+function splitRow(table: HTMLElement, left: DiffLine | null, right: DiffLine | null): void {
+	const row = table.createEl("tr", { cls: "auto-git-diff-line" });
+	const leftType = left ? left.type : "empty";
+	const rightType = right ? right.type : "empty";
+	row.createEl("td", { cls: `auto-git-diff-num mod-${leftType}`, text: left?.oldLine !== undefined ? String(left.oldLine) : "" });
+	row.createEl("td", { cls: `auto-git-diff-text mod-${leftType}`, text: left?.text ?? "" });
+	row.createEl("td", { cls: `auto-git-diff-num mod-${rightType}`, text: right?.newLine !== undefined ? String(right.newLine) : "" });
+	row.createEl("td", { cls: `auto-git-diff-text mod-${rightType}`, text: right?.text ?? "" });
+}
+
+function renderDiffTable(container: HTMLElement, hunks: DiffHunk[], mode: DiffMode): void {
+	const table = container.createEl("table", { cls: `auto-git-diff-table mod-${mode}` });
+	hunks.forEach((hunk) => {
+		const header = table.createEl("tr", { cls: "auto-git-diff-hunk" });
+		header.createEl("td", {
+			text: `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+			attr: { colspan: "4" },
+		});
+		if (mode === "unified") {
+			renderUnified(table, hunk);
+		} else {
+			renderSplit(table, hunk);
+		}
+	});
+}
+
+/** Working copy of a file compared against HEAD or an earlier commit */
+export class DiffModal extends Modal {
+	private mode: DiffMode = "unified";
+	private base = HEAD;
+	private commits: CommitInfo[] = [];
+	private bodyEl: HTMLElement | null = null;
+	// Ignore results of a render superseded by a newer one (fast base switching)
+	private renderId = 0;
+
+	constructor(app: App, private plugin: AutoGitPlugin, private filePath: string) {
+		super(app);
+	}
+
+	async onOpen() {
+		const i18n = t();
+		const { contentEl } = this;
+		this.modalEl.addClass("auto-git-diff-modal");
+
+		contentEl.createEl("h2", { text: this.filePath });
+
+		const toolbar = contentEl.createDiv({ cls: "auto-git-diff-toolbar" });
+		const baseDropdown = new DropdownComponent(toolbar);
+		baseDropdown.addOption(HEAD, i18n.diffBaseHead);
+		baseDropdown.onChange((value) => {
+			this.base = value;
+			void this.renderDiff();
+		});
+
+		const modeEl = toolbar.createDiv({ cls: "auto-git-diff-mode" });
+		const unifiedBtn = modeEl.createEl("button", { text: i18n.diffUnified });
+		const splitBtn = modeEl.createEl("button", { text: i18n.diffSplit });
+		const setMode = (mode: DiffMode) => {
+			this.mode = mode;
+			unifiedBtn.toggleClass("mod-cta", mode === "unified");
+			splitBtn.toggleClass("mod-cta", mode === "split");
+			void this.renderDiff();
+		};
+		unifiedBtn.addEventListener("click", () => setMode("unified"));
+		splitBtn.addEventListener("click", () => setMode("split"));
+		unifiedBtn.addClass("mod-cta");
+
+		this.bodyEl = contentEl.createDiv({ cls: "auto-git-diff-body" });
+		await this.renderDiff();
+
+		const cwd = this.plugin.getVaultPathSafe();
+		if (!cwd) return;
+		try {
+			this.commits = await this.plugin.gitQueue.run(() => getFileHistory(cwd, this.plugin.settings.gitPath, this.filePath));
+			this.commits.forEach((commit) => {
+				const date = moment(commit.date).format("YYYY-MM-DD HH:mm");
+				// Dropdown options are plain text, so the signature badge becomes a mark
+				const signed = commit.signature === "good" ? " ✓" : commit.signature === "bad" ? " ✗" : "";
+				baseDropdown.addOption(commit.hash, `${commit.shortHash}${signed} · ${date} · ${commit.subject}`);
+			});
+		} catch {
+			// Comparing against HEAD still works without the history list
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.bodyEl = null;
+	}
+
+	private async renderDiff(): Promise<void> {
+		const id = ++this.renderId;
+		const bodyEl = this.bodyEl;
+		const cwd = this.plugin.getVaultPathSafe();
+		if (!bodyEl || !cwd) return;
+
+		const i18n = t();
+		const basePath = this.commits.find((c) => c.hash === this.base)?.path ?? this.filePath;
+
+		let oldText: string;
+		let newText: string;
+		try {
+			const adapter = this.app.vault.adapter;
+			const [revision, current] = await Promise.all([
+				this.plugin.gitQueue.run(() => readFileAtRevision(cwd, this.plugin.settings.gitPath, this.base, basePath)),
+				adapter.exists(this.filePath).then((exists) => (exists ? adapter.read(this.filePath) : "")),
+			]);
+			oldText = revision ?? "";
+			newText = current;
+		} catch (e) {
+			if (id !== this.renderId) return;
+			bodyEl.empty();
+			bodyEl.createDiv({ cls: "auto-git-diff-empty", text: describeError(e) });
+			return;
+		}
+		if (id !== this.renderId) return;
+
+		bodyEl.empty();
+		if (oldText.includes("\0") || newText.includes("\0")) {
+			bodyEl.createDiv({ cls: "auto-git-diff-empty", text: i18n.diffBinary });
+			return;
+		}
+
+		const hunks = buildHunks(diffLines(oldText, newText));
+		if (hunks.length === 0) {
+			bodyEl.createDiv({ cls: "auto-git-diff-empty", text: i18n.diffNoChanges });
+			return;
+		}
+
+		renderDiffTable(bodyEl, hunks, this.mode);
+	}
+}
+
+type ConflictComparison = "local-remote" | "base-local" | "base-remote";
+
+/** The two sides of a conflicted file, each also against their common ancestor */
+export class ConflictDiffModal extends Modal {
+	private mode: DiffMode = "split";
+	private comparison: ConflictComparison = "local-remote";
+	private versions: ConflictVersions | null = null;
+	private bodyEl: HTMLElement | null = null;
+
+	constructor(app: App, private plugin: AutoGitPlugin, private filePath: string) {
+		super(app);
+	}
+
+	async onOpen() {
+		const i18n = t();
+		const { contentEl } = this;
+		this.modalEl.addClass("auto-git-diff-modal");
+
+		contentEl.createEl("h2", { text: this.filePath });
+
+		const toolbar = contentEl.createDiv({ cls: "auto-git-diff-toolbar" });
+		new DropdownComponent(toolbar)
+			.addOption("local-remote", i18n.conflictDiffLocalRemote)
+			.addOption("base-local", i18n.conflictDiffBaseLocal)
+			.addOption("base-remote", i18n.conflictDiffBaseRemote)
+			.setValue(this.comparison)
+			.onChange((value) => {
+				this.comparison = value as ConflictComparison;
+				this.render();
+			});
+
+		const modeEl = toolbar.createDiv({ cls: "auto-git-diff-mode" });
+		const unifiedBtn = modeEl.createEl("button", { text: i18n.diffUnified });
+		const splitBtn = modeEl.createEl("button", { text: i18n.diffSplit });
+		const setMode = (mode: DiffMode) => {
+			this.mode = mode;
+			unifiedBtn.toggleClass("mod-cta", mode === "unified");
+			splitBtn.toggleClass("mod-cta", mode === "split");
+			this.render();
+		};
+		unifiedBtn.addEventListener("click", () => setMode("unified"));
+		splitBtn.addEventListener("click", () => setMode("split"));
+		splitBtn.addClass("mod-cta");
+
+		this.bodyEl = contentEl.createDiv({ cls: "auto-git-diff-body" });
+
+		const cwd = this.plugin.getVaultPathSafe();
+		if (!cwd) return;
+		try {
+			this.versions = await this.plugin.gitQueue.run(() => getConflictVersions(cwd, this.plugin.settings.gitPath, this.filePath), { priority: "user" });
+		} catch (e) {
+			this.bodyEl.createDiv({ cls: "auto-git-diff-empty", text: describeError(e) });
+			return;
+		}
+		this.render();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.bodyEl = null;
+	}
+
+	private render(): void {
+		const { bodyEl, versions } = this;
+		if (!bodyEl || !versions) return;
+
+		const i18n = t();
+		bodyEl.empty();
+
+		const [oldSide, newSide] = this.comparison === "local-remote"
+			? [versions.local, versions.remote]
+			: [versions.base, this.comparison === "base-local" ? versions.local : versions.remote];
+		const oldText = oldSide ?? "";
+		const newText = newSide ?? "";
+		if (oldText.includes("\0") || newText.includes("\0")) {
+			bodyEl.createDiv({ cls: "auto-git-diff-empty", text: i18n.diffBinary });
+			return;
+		}
+
+		const hunks = buildHunks(diffLines(oldText, newText));
+		if (hunks.length === 0) {
+			bodyEl.createDiv({ cls: "auto-git-diff-empty", text: i18n.diffNoChanges });
+			return;
+		}
+		renderDiffTable(bodyEl, hunks, this.mode);
+	}
+}
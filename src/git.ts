@@ -1,13 +1,129 @@
 import { execFile, execFileSync, spawn } from "child_process";
-import { promises as fs } from "fs";
+import { promises as fs, readFileSync, statSync, unlinkSync, writeFileSync } from "fs";
+import * as os from "os";
 import * as path from "path";
 
-interface GitRunOptions {
+export interface GitCallOptions {
+	signal?: AbortSignal;
+	/** Kill git after this many milliseconds; 0 or unset = no limit */
+	timeoutMs?: number;
+	/** Abort HTTP transfers that stay below 1 KB/s for this many seconds; 0 or unset = no limit */
+	stallSeconds?: number;
+}
+
+interface GitRunOptions extends GitCallOptions {
 	cwd: string;
 	gitPath: string;
 	args: string[];
 }
 
+export type GitErrorKind =
+	| "git-not-found"
+	| "not-a-repo"
+	| "auth-failed"
+	| "network-unreachable"
+	| "non-fast-forward"
+	| "diverged"
+	| "index-locked"
+	| "merge-conflict"
+	| "detached-head"
+	| "missing-identity"
+	| "dirty-worktree"
+	| "branch-exists"
+	| "branch-not-merged"
+	| "invalid-branch-name"
+	| "signing-locked"
+	| "signing-failed"
+	| "conflict-markers"
+	| "nothing-to-commit"
+	| "timeout"
+	| "cancelled"
+	| "unknown";
+
+/** Failed git invocation with the exit code, the command line and a locale-independent classification */
+export class GitError extends Error {
+	readonly kind: GitErrorKind;
+	readonly exitCode: number | null;
+	readonly command: string;
+	readonly stderr: string;
+
+	constructor(kind: GitErrorKind, message: string, command = "", exitCode: number | null = null, stderr = "") {
+		super(message);
+		this.name = "GitError";
+		this.kind = kind;
+		this.command = command;
+		this.exitCode = exitCode;
+		this.stderr = stderr;
+	}
+}
+
+// Order matters: more specific patterns first (e.g. auth before network, since both mention the remote)
+const ERROR_PATTERNS: [GitErrorKind, RegExp][] = [
+	["not-a-repo", /not a git repository/i],
+	["index-locked", /index\.lock'?:? File exists|Unable to create '.*index\.lock'/i],
+	["missing-identity", /Please tell me who you are|unable to auto-detect email address|empty ident name/i],
+	["signing-locked", /Inappropriate ioctl for device|No pinentry|problem with the agent|agent refused operation|incorrect passphrase|Bad passphrase|can't open \/dev\/tty|read_passphrase/i],
+	["signing-failed", /gpg failed to sign the data|failed to sign|No secret key|Couldn't (?:load|sign)|signing failed/i],
+	["merge-conflict", /CONFLICT \(|Automatic merge failed|Merge conflict|fix conflicts and then commit|you need to resolve your current index first|unmerged files/i],
+	["dirty-worktree", /cannot pull with rebase|Your local changes to the following files would be overwritten|untracked working tree files would be overwritten|Please commit your changes or stash them/i],
+	["invalid-branch-name", /is not a valid branch name|not a valid ref name/i],
+	["branch-exists", /a branch named '.*' already exists|branch '.*' already exists/i],
+	["branch-not-merged", /is not fully merged/i],
+	["detached-head", /You are not currently on a branch|HEAD detached/i],
+	["diverged", /Not possible to fast-forward|Diverging branches can't be fast-forwarded/i],
+	["non-fast-forward", /\[rejected\]|non-fast-forward|Updates were rejected|fetch first/i],
+	["auth-failed", /Authentication failed|could not read (Username|Password)|terminal prompts disabled|Permission denied \(publickey|Invalid username or password|HTTP Basic: Access denied|returned error: 40[13]/i],
+	// curl's low speed limit (stallSeconds) gave up on a stalled transfer
+	["timeout", /Operation too slow/i],
+	["network-unreachable", /Could not resolve host|Failed to connect|Connection (refused|timed out|reset)|Network is unreachable|Could not read from remote repository|unable to access '/i],
+	["nothing-to-commit", /nothing to commit|nothing added to commit|no changes added to commit/i],
+];
+
+// Raised by the plugin itself, with the useful part (paths, the limit hit) in the message
+const MESSAGE_DETAIL_KINDS: GitErrorKind[] = ["conflict-markers", "timeout"];
+const MAX_DETAIL_LENGTH = 200;
+
+/**
+ * What to show next to the translated text for an error: the line of git's
+ * output that got it classified, else git's first line of complaint.
+ */
+export function errorDetail(e: GitError): string {
+	if (!e.stderr) return MESSAGE_DETAIL_KINDS.includes(e.kind) ? e.message : "";
+	const lines = e.stderr.split("\n").map((line) => line.trim()).filter(Boolean);
+	const pattern = ERROR_PATTERNS.find(([kind]) => kind === e.kind)?.[1];
+	const line = lines.find((l) => pattern?.test(l)) ?? lines[0] ?? "";
+	const detail = line.replace(/^(?:fatal|error|remote):\s*/i, "").replace(/\s+/g, " ");
+	return detail.length > MAX_DETAIL_LENGTH ? `${detail.slice(0, MAX_DETAIL_LENGTH)}...` : detail;
+}
+
+export function isCancelled(e: unknown): boolean {
+	return e instanceof GitError && e.kind === "cancelled";
+}
+
+function classifyGitOutput(output: string): GitErrorKind {
+	for (const [kind, pattern] of ERROR_PATTERNS) {
+		if (pattern.test(output)) return kind;
+	}
+	return "unknown";
+}
+
+interface ProcessFailure {
+	message: string;
+	code?: string | number | null;
+	status?: number | null;
+	killed?: boolean;
+}
+
+function toGitError(args: string[], err: ProcessFailure, stdout: string, stderr: string): GitError {
+	const command = `git ${args.join(" ")}`;
+	if (err.code === "ENOENT") {
+		return new GitError("git-not-found", err.message, command);
+	}
+	const exitCode = typeof err.code === "number" ? err.code : (err.status ?? null);
+	const message = stderr.trim() || stdout.trim() || err.message;
+	return new GitError(classifyGitOutput(`${stderr}\n${stdout}`), message, command, exitCode, stderr.trim());
+}
+
 let debugEnabled = false;
 
 export function setGitDebug(enabled: boolean): void {
@@ -24,8 +140,45 @@ function logCmd(args: string[]): void {
 	console.debug(`[auto-git] > git ${args.join(" ")}`);
 }
 
+export interface CommitIdentity {
+	name: string;
+	email: string;
+}
+
+let identityArgs: string[] = [];
+
+/** Author and committer for everything the plugin commits; empty fields fall back to git config */
+export function setGitIdentity({ name, email }: CommitIdentity): void {
+	identityArgs = [];
+	if (name) identityArgs.push("-c", `user.name=${name}`);
+	if (email) identityArgs.push("-c", `user.email=${email}`);
+}
+
+export type SigningFormat = "off" | "gpg" | "ssh";
+
+export interface SigningConfig {
+	format: SigningFormat;
+	/** GPG key id (empty = default key) or path to the SSH key */
+	key: string;
+}
+
+let signingArgs: string[] = [];
+
+// A key waiting for a passphrase nobody can type must not hold the queue (or closing Obsidian) forever
+const SIGNING_TIMEOUT_MS = 30 * 1000;
+
+/** Sign the plugin's commits; "off" leaves whatever git config says */
+export function setGitSigning({ format, key }: SigningConfig): void {
+	signingArgs = [];
+	if (format === "off") return;
+	signingArgs.push("-c", "commit.gpgsign=true", "-c", `gpg.format=${format === "ssh" ? "ssh" : "openpgp"}`);
+	const signingKey = format === "ssh" ? key.replace(/^~(?=$|[\\/])/, os.homedir()) : key;
+	if (signingKey) signingArgs.push("-c", `user.signingkey=${signingKey}`);
+}
+
 function buildGitEnv(): NodeJS.ProcessEnv {
-	const env: NodeJS.ProcessEnv = { ...process.env, GIT_TERMINAL_PROMPT: "0" };
+	// Force untranslated git output so errors can be classified regardless of the user's locale
+	const env: NodeJS.ProcessEnv = { ...process.env, GIT_TERMINAL_PROMPT: "0", LC_ALL: "C", LANGUAGE: "C" };
 
 	if (process.platform === "darwin") {
 		const extraPaths = [
@@ -55,76 +208,254 @@ function getGitEnv(): NodeJS.ProcessEnv {
 	return cachedGitEnv;
 }
 
-function runGitSync({ cwd, gitPath, args }: GitRunOptions): string {
+// ssh that fails instead of prompting and gives up on hosts that don't answer
+const BATCH_SSH_COMMAND = "ssh -o BatchMode=yes -o ConnectTimeout=30";
+// Per working directory: whether core.sshCommand is set, in which case the user's ssh is left alone
+const customSshCommand = new Map<string, boolean>();
+
+function gitEnvFor(cwd: string, gitPath: string): NodeJS.ProcessEnv {
+	const env = getGitEnv();
+	if (env.GIT_SSH_COMMAND || env.GIT_SSH) return env;
+
+	let custom = customSshCommand.get(cwd);
+	if (custom === undefined) {
+		try {
+			custom = execFileSync(gitPath, ["config", "--get", "core.sshCommand"], {
+				cwd,
+				windowsHide: true,
+				env,
+				encoding: "utf8",
+				stdio: ["ignore", "pipe", "ignore"],
+			}).trim() !== "";
+		} catch {
+			// Not set (exit 1), or git is missing and the command itself will say so
+			custom = false;
+		}
+		customSshCommand.set(cwd, custom);
+	}
+	return custom ? env : { ...env, GIT_SSH_COMMAND: BATCH_SSH_COMMAND };
+}
+
+// File contents at old revisions and diffs can easily exceed execFile's 1 MB default
+const MAX_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+function runGitSync({ cwd, gitPath, args, timeoutMs }: GitRunOptions): string {
 	logCmd(args);
 	try {
-		const result = execFileSync(gitPath, args, {
+		const result = execFileSync(gitPath, [...identityArgs, ...signingArgs, ...args], {
 			cwd,
 			windowsHide: true,
-			env: getGitEnv(),
+			env: gitEnvFor(cwd, gitPath),
 			encoding: "utf8",
+			maxBuffer: MAX_OUTPUT_BYTES,
+			timeout: timeoutMs ?? 0,
+			stdio: ["ignore", "pipe", "pipe"],
 		});
 		log("ok");
 		return result;
 	} catch (e) {
-		log("error:", (e as Error).message);
-		throw e;
+		const err = e as ProcessFailure & { stdout?: string; stderr?: string };
+		log("error:", err.stderr?.trim() || err.message);
+		throw toGitError(args, err, err.stdout ?? "", err.stderr ?? "");
 	}
 }
 
-function runGit({ cwd, gitPath, args }: GitRunOptions): Promise<string> {
+// Slow but moving transfers are fine; only one that stalls for the whole window is given up
+function stallArgs(stallSeconds: number | undefined): string[] {
+	if (!stallSeconds) return [];
+	return ["-c", "http.lowSpeedLimit=1000", "-c", `http.lowSpeedTime=${stallSeconds}`];
+}
+
+function runGit(opts: GitRunOptions): Promise<string> {
+	return runGitBuffer(opts).then((stdout) => new TextDecoder("utf-8", { ignoreBOM: true }).decode(stdout));
+}
+
+// Raw stdout, for file contents that may not be text
+function runGitBuffer({ cwd, gitPath, args, signal, timeoutMs, stallSeconds }: GitRunOptions): Promise<Uint8Array> {
 	logCmd(args);
+	const command = `git ${args.join(" ")}`;
+	if (signal?.aborted) {
+		return Promise.reject(new GitError("cancelled", "Cancelled", command));
+	}
 	return new Promise((resolve, reject) => {
-		execFile(
+		const child = execFile(
 			gitPath,
-			args,
+			[...identityArgs, ...signingArgs, ...stallArgs(stallSeconds), ...args],
 			{
 				cwd,
 				windowsHide: true,
-				env: getGitEnv(),
+				env: gitEnvFor(cwd, gitPath),
+				signal,
+				timeout: timeoutMs ?? 0,
+				maxBuffer: MAX_OUTPUT_BYTES,
+				encoding: "buffer",
 			},
 			(err, stdout, stderr) => {
 				if (err) {
-					log("error:", stderr?.trim() || err.message);
-					reject(new Error(stderr?.trim() || err.message));
+					const errText = stderr.toString("utf8");
+					log("error:", errText.trim() || err.message);
+					if (signal?.aborted) {
+						reject(new GitError("cancelled", "Cancelled", command));
+					} else if (timeoutMs && (err as ProcessFailure).killed) {
+						reject(new GitError("timeout", `Timed out after ${Math.round(timeoutMs / 1000)}s`, command));
+					} else {
+						reject(toGitError(args, err, stdout.toString("utf8"), errText));
+					}
 					return;
 				}
 				log("ok");
 				resolve(stdout);
 			}
 		);
+		// Nothing reads from us: a passphrase prompt falling back to stdin fails instead of waiting
+		child.stdin?.end();
 	});
 }
 
-async function ensureGitignore(cwd: string, ignoreDir?: string): Promise<void> {
-	if (!ignoreDir) return;
+// Commands that create commits: bounded in time while signing, with a timeout reported as a locked key
+async function runCommitting(opts: GitRunOptions): Promise<string> {
+	if (signingArgs.length === 0) return runGit(opts);
+	try {
+		return await runGit({ ...opts, timeoutMs: SIGNING_TIMEOUT_MS });
+	} catch (e) {
+		if (e instanceof GitError && e.kind === "timeout") {
+			throw new GitError("signing-locked", e.message, e.command);
+		}
+		throw e;
+	}
+}
 
-	const gitignorePath = path.join(cwd, ".gitignore");
-	const ignorePattern = ignoreDir.endsWith("/") ? ignoreDir : `${ignoreDir}/`;
+/**
+ * Sign a throwaway commit object (not referenced by any branch) to find out
+ * whether signing works without a passphrase prompt.
+ */
+export async function checkSigning(cwd: string, gitPath: string): Promise<void> {
+	const tree = (await runGit({ cwd, gitPath, args: ["write-tree"] })).trim();
+	await runCommitting({ cwd, gitPath, args: ["commit-tree", "-S", tree, "-m", "auto-git-commit signing check"] });
+}
+
+/** Config folder rules for .gitignore, see configIgnoreEntries() */
+export interface ConfigIgnore {
+	configDir: string;
+	entries: string[];
+}
 
-	let content = "";
+async function ensureGitignore(cwd: string, configIgnore?: ConfigIgnore): Promise<void> {
+	if (!configIgnore) return;
+	await writeConfigIgnoreBlock(cwd, configIgnore);
+}
+
+async function readGitignore(cwd: string): Promise<string> {
 	try {
-		content = await fs.readFile(gitignorePath, "utf8");
+		return await fs.readFile(path.join(cwd, ".gitignore"), "utf8");
 	} catch (e) {
 		if ((e as NodeJS.ErrnoException).code !== "ENOENT") throw e;
+		return "";
 	}
+}
 
-	const lines = content.split(/\r?\n/);
-	if (lines.some((line) => line.trim() === ignorePattern)) return;
+const CONFIG_BLOCK_START = "# >>> auto-git-commit: config folder";
+const CONFIG_BLOCK_END = "# <<< auto-git-commit: config folder";
+
+// Replace the plugin-managed block of config folder rules in .gitignore
+export async function writeConfigIgnoreBlock(cwd: string, { configDir, entries }: ConfigIgnore): Promise<void> {
+	const content = await readGitignore(cwd);
+	const eol = content.includes("\r\n") ? "\r\n" : "\n";
+	// Earlier versions wrote a bare "<configDir>/" line, which would override the block
+	const legacyLine = `${configDir.replace(/\/+$/, "")}/`;
+
+	const kept: string[] = [];
+	let inBlock = false;
+	for (const line of content.split(/\r?\n/)) {
+		if (line.trim() === CONFIG_BLOCK_START) inBlock = true;
+		else if (line.trim() === CONFIG_BLOCK_END) inBlock = false;
+		else if (!inBlock && line.trim() !== legacyLine) kept.push(line);
+	}
+	while (kept.length > 0 && kept[kept.length - 1].trim() === "") kept.pop();
+
+	if (entries.length > 0) {
+		kept.push(CONFIG_BLOCK_START, ...entries, CONFIG_BLOCK_END);
+	}
+	const next = kept.length > 0 ? kept.join(eol) + eol : "";
+	if (next !== content) {
+		await fs.writeFile(path.join(cwd, ".gitignore"), next, "utf8");
+	}
+}
+
+// Append entries missing from .gitignore; returns how many were added
+export async function ensureGitignoreEntries(cwd: string, entries: string[]): Promise<number> {
+	const gitignorePath = path.join(cwd, ".gitignore");
+	const content = await readGitignore(cwd);
+
+	const existing = new Set(content.split(/\r?\n/).map((line) => line.trim()));
+	const missing = [...new Set(entries)].filter((entry) => !existing.has(entry));
+	if (missing.length === 0) return 0;
 
 	const eol = content.includes("\r\n") ? "\r\n" : "\n";
 	const prefix = content.length > 0 && !content.endsWith("\n") ? eol : "";
-	await fs.writeFile(gitignorePath, `${content}${prefix}${ignorePattern}${eol}`, "utf8");
+	await fs.writeFile(gitignorePath, `${content}${prefix}${missing.join(eol)}${eol}`, "utf8");
+	return missing.length;
 }
 
 // Repo state detection
+/** An operation git stopped in the middle of, usually on conflicts */
+export type RepoOperation = "merging" | "rebasing" | "cherry-picking";
+
+/** States that hold off auto-commit until the user continues, aborts or checks out a branch */
+export type InterruptedState = RepoOperation | "detached";
+
 export type RepoState =
 	| "not-a-repo"
 	| "empty-repo"
+	| InterruptedState
 	| "local-only"
 	| "remote-no-upstream"
 	| "ready";
 
+export async function getRepoOperation(cwd: string, gitPath: string): Promise<RepoOperation | null> {
+	try {
+		// A rebase also leaves HEAD detached and may stop on a merge commit, so it goes first
+		if (await isRebaseInProgress(cwd, gitPath)) return "rebasing";
+		if (await gitPathExists(cwd, gitPath, "MERGE_HEAD")) return "merging";
+		if (await gitPathExists(cwd, gitPath, "CHERRY_PICK_HEAD")) return "cherry-picking";
+	} catch {
+		// Not a repository
+	}
+	return null;
+}
+
+export async function isDetachedHead(cwd: string, gitPath: string): Promise<boolean> {
+	try {
+		await runGit({ cwd, gitPath, args: ["symbolic-ref", "-q", "HEAD"] });
+		return false;
+	} catch {
+		return true;
+	}
+}
+
+export async function getInterruptedState(cwd: string, gitPath: string): Promise<InterruptedState | null> {
+	const operation = await getRepoOperation(cwd, gitPath);
+	if (operation) return operation;
+	// An unborn branch is not detached: HEAD still names it
+	return (await isDetachedHead(cwd, gitPath)) ? "detached" : null;
+}
+
+const OPERATION_COMMANDS: Record<RepoOperation, { continue: string[]; abort: string[] }> = {
+	"merging": { continue: ["commit", "--no-edit"], abort: ["merge", "--abort"] },
+	"rebasing": { continue: ["rebase", "--continue"], abort: ["rebase", "--abort"] },
+	"cherry-picking": { continue: ["cherry-pick", "--continue"], abort: ["cherry-pick", "--abort"] },
+};
+
+/** Finish the stopped operation with what is staged; git's own commit messages are kept */
+export async function continueOperation(cwd: string, gitPath: string, operation: RepoOperation): Promise<void> {
+	await runCommitting({ cwd, gitPath, args: ["-c", "core.editor=true", ...OPERATION_COMMANDS[operation].continue] });
+}
+
+/** Go back to where the repository was before the operation started */
+export async function abortOperation(cwd: string, gitPath: string, operation: RepoOperation): Promise<void> {
+	await runGit({ cwd, gitPath, args: OPERATION_COMMANDS[operation].abort });
+}
+
 export async function detectRepoState(cwd: string, gitPath: string): Promise<RepoState> {
 	// Check if it's a git repo
 	if (!(await isGitRepo(cwd, gitPath))) {
@@ -138,6 +469,12 @@ export async function detectRepoState(cwd: string, gitPath: string): Promise<Rep
 		return "empty-repo";
 	}
 
+	// A stopped merge, rebase or cherry-pick needs attention before anything else
+	const interrupted = await getInterruptedState(cwd, gitPath);
+	if (interrupted) {
+		return interrupted;
+	}
+
 	// Check if remote is configured
 	const remoteUrl = await getRemoteUrl(cwd, gitPath);
 	if (!remoteUrl) {
@@ -154,46 +491,491 @@ export async function detectRepoState(cwd: string, gitPath: string): Promise<Rep
 }
 
 export async function getChangedFiles(cwd: string, gitPath: string): Promise<string[]> {
-	const stdout = await runGit({ cwd, gitPath, args: ["status", "--porcelain=v1", "-z"] });
-	if (!stdout) return [];
+	const entries = await getChangedFileEntries(cwd, gitPath);
+	return [...new Set(entries.map((f) => f.path))];
+}
 
+export interface SyncStatus {
+	/** null when HEAD is detached */
+	branch: string | null;
+	changedCount: number;
+	hasUpstream: boolean;
+	ahead: number;
+	behind: number;
+	/** null before the first commit */
+	lastCommit: Date | null;
+}
+
+// Fields before the path in each kind of porcelain v2 record
+const V2_PATH_FIELD: Record<string, number> = { "1": 8, "2": 9, "u": 10, "?": 1, "!": 1 };
+
+function porcelainV2Path(record: string): string {
+	return record.split(" ").slice(V2_PATH_FIELD[record[0]] ?? 1).join(" ");
+}
+
+/** isExcluded leaves paths the plugin never commits out of changedCount */
+export async function getSyncStatus(cwd: string, gitPath: string, isExcluded?: (path: string) => boolean): Promise<SyncStatus> {
+	// Untracked files one by one, so they can be matched against the exclude patterns
+	const untracked = isExcluded ? ["--untracked-files=all"] : [];
+	const stdout = await runGit({ cwd, gitPath, args: ["status", "--porcelain=v2", "--branch", "-z", ...untracked] });
+	const status: SyncStatus = { branch: null, changedCount: 0, hasUpstream: false, ahead: 0, behind: 0, lastCommit: null };
+
+	const records = stdout.split("\0").filter(Boolean);
+	for (let i = 0; i < records.length; i++) {
+		const record = records[i];
+		if (record.startsWith("# branch.head ")) {
+			const head = record.slice("# branch.head ".length);
+			status.branch = head === "(detached)" ? null : head;
+		} else if (record.startsWith("# branch.upstream ")) {
+			status.hasUpstream = true;
+		} else if (record.startsWith("# branch.ab ")) {
+			const match = /\+(\d+) -(\d+)/.exec(record);
+			if (match) {
+				status.ahead = Number(match[1]);
+				status.behind = Number(match[2]);
+			}
+		} else if (!record.startsWith("#")) {
+			if (!isExcluded?.(porcelainV2Path(record))) status.changedCount++;
+			// Rename/copy entries carry the original path as an extra record
+			if (record.startsWith("2 ")) i++;
+		}
+	}
+
+	try {
+		const timestamp = await runGit({ cwd, gitPath, args: ["log", "-1", "--format=%ct"] });
+		if (timestamp.trim()) status.lastCommit = new Date(Number(timestamp.trim()) * 1000);
+	} catch {
+		// No commits yet
+	}
+
+	return status;
+}
+
+export type ChangeStatus = "M" | "A" | "D" | "R" | "U";
+
+export interface ChangedFile {
+	path: string;
+	status: ChangeStatus;
+	/** Previous path of a renamed file */
+	origPath?: string;
+}
+
+function changeStatus(xy: string): ChangeStatus {
+	if (xy.includes("U") || xy === "AA" || xy === "DD") return "U";
+	if (xy === "??" || xy.includes("A")) return "A";
+	if (xy.includes("R") || xy.includes("C")) return "R";
+	if (xy.includes("D")) return "D";
+	return "M";
+}
+
+// Untracked folders are listed file by file so excludes can apply
+const CHANGED_FILES_ARGS = ["status", "--porcelain=v1", "-z", "--untracked-files=all"];
+
+function parseChangedFiles(stdout: string): ChangedFile[] {
 	const parts = stdout.split("\0").filter(Boolean);
-	const files: string[] = [];
+	const files: ChangedFile[] = [];
 
 	for (let i = 0; i < parts.length; i++) {
-		const entry = parts[i];
-		const statusCode = entry.slice(0, 2);
-		const filePath = entry.slice(3);
-
-		// Handle rename/copy entries (have additional NUL-separated path for new name)
-		if (statusCode.startsWith("R") || statusCode.startsWith("C")) {
-			const newPath = parts[++i];
-			if (newPath) files.push(newPath);
-			continue;
+		const xy = parts[i].slice(0, 2);
+		const filePath = parts[i].slice(3);
+		const status = changeStatus(xy);
+		if (status === "R") {
+			// With -z the new path comes first and the original path follows
+			files.push({ path: filePath, status, origPath: parts[++i] });
+		} else {
+			files.push({ path: filePath, status });
 		}
-		if (filePath) files.push(filePath);
 	}
 
-	return [...new Set(files)];
+	return files;
 }
 
-export async function commitAll(cwd: string, gitPath: string, message: string): Promise<void> {
-	await runGit({ cwd, gitPath, args: ["add", "-A"] });
+// Changed files with a status letter each
+export async function getChangedFileEntries(cwd: string, gitPath: string): Promise<ChangedFile[]> {
+	return parseChangedFiles(await runGit({ cwd, gitPath, args: CHANGED_FILES_ARGS }));
+}
 
+// Stage and commit only the given paths, leaving other changes untouched
+export async function commitFiles(cwd: string, gitPath: string, files: ChangedFile[], message: string, opts: GitCallOptions = {}): Promise<void> {
+	const paths = files.map((f) => f.path);
+	// The old side of a rename is already staged and gone from disk, so only the commit needs it
+	const commitPaths = [...paths, ...files.flatMap((f) => (f.origPath ? [f.origPath] : []))];
+	const addFile = writePathspecFile(paths);
+	const commitFile = writePathspecFile(commitPaths);
 	try {
-		await runGit({ cwd, gitPath, args: ["commit", "-m", message] });
+		// Literal pathspecs so names containing * or [ are not treated as globs
+		await runGit({ cwd, gitPath, args: ["--literal-pathspecs", "add", "-A", ...pathspecArgs(addFile)], signal: opts.signal });
+		await runCommitting({ cwd, gitPath, args: ["--literal-pathspecs", "commit", "-m", message, "--only", ...pathspecArgs(commitFile)], signal: opts.signal });
+	} finally {
+		removePathspecFile(addFile);
+		removePathspecFile(commitFile);
+	}
+}
+
+export interface CommitOptions extends GitCallOptions {
+	/** Paths to leave out of the commit even though they changed */
+	exclude?: string[];
+}
+
+// Large path lists go through a file: command lines are limited, especially on Windows
+function writePathspecFile(paths: string[]): string {
+	const file = path.join(os.tmpdir(), `auto-git-pathspec-${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+	writeFileSync(file, paths.join("\0"), "utf8");
+	return file;
+}
+
+function removePathspecFile(file: string): void {
+	try {
+		unlinkSync(file);
+	} catch {
+		// Already gone
+	}
+}
+
+function pathspecArgs(file: string): string[] {
+	return [`--pathspec-from-file=${file}`, "--pathspec-file-nul"];
+}
+
+export async function commitAll(cwd: string, gitPath: string, message: string, opts: CommitOptions = {}): Promise<void> {
+	await runGit({ cwd, gitPath, args: ["add", "-A"], signal: opts.signal });
+
+	if (opts.exclude && opts.exclude.length > 0) {
+		const file = writePathspecFile(opts.exclude);
+		try {
+			await runGit({ cwd, gitPath, args: ["--literal-pathspecs", "reset", "-q", ...pathspecArgs(file)], signal: opts.signal });
+		} finally {
+			removePathspecFile(file);
+		}
+	}
+
+	try {
+		await runCommitting({ cwd, gitPath, args: ["commit", "-m", message], signal: opts.signal });
 	} catch (e) {
-		const msg = (e as Error).message;
-		if (msg.includes("nothing to commit") || msg.includes("no changes added")) {
+		if (e instanceof GitError && e.kind === "nothing-to-commit") {
 			return;
 		}
 		throw e;
 	}
 }
 
-export async function push(cwd: string, gitPath: string): Promise<void> {
+export interface LargeFile {
+	path: string;
+	/** Size on disk in bytes */
+	size: number;
+}
+
+/** Paths whose "filter" attribute is lfs, i.e. already stored as LFS pointers */
+async function getLfsFiles(cwd: string, gitPath: string, paths: string[]): Promise<Set<string>> {
+	try {
+		const stdout = await runGit({ cwd, gitPath, args: ["check-attr", "-z", "filter", "--", ...paths] });
+		const parts = stdout.split("\0");
+		const lfs = new Set<string>();
+		for (let i = 0; i + 2 < parts.length; i += 3) {
+			if (parts[i + 2] === "lfs") lfs.add(parts[i]);
+		}
+		return lfs;
+	} catch {
+		return new Set();
+	}
+}
+
+/** Changed files bigger than the limit; deleted files and files tracked with Git LFS don't count */
+export async function findLargeFiles(cwd: string, gitPath: string, paths: string[], limitBytes: number): Promise<LargeFile[]> {
+	const large: LargeFile[] = [];
+	for (const filePath of paths) {
+		try {
+			const stat = await fs.stat(path.join(cwd, filePath));
+			if (stat.isFile() && stat.size > limitBytes) large.push({ path: filePath, size: stat.size });
+		} catch {
+			// Deleted: nothing to store
+		}
+	}
+	if (large.length === 0) return large;
+
+	const lfs = await getLfsFiles(cwd, gitPath, large.map((f) => f.path));
+	return large.filter((f) => !lfs.has(f.path));
+}
+
+export function findLargeFilesSync(cwd: string, paths: string[], limitBytes: number): string[] {
+	return paths.filter((filePath) => {
+		try {
+			const stat = statSync(path.join(cwd, filePath));
+			return stat.isFile() && stat.size > limitBytes;
+		} catch {
+			return false;
+		}
+	});
+}
+
+export async function isLfsAvailable(cwd: string, gitPath: string): Promise<boolean> {
+	try {
+		await runGit({ cwd, gitPath, args: ["lfs", "version"] });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/** "*.ext" pattern covering the file's type, or null for files without an extension */
+export function lfsTrackPattern(filePath: string): string | null {
+	const name = filePath.slice(filePath.lastIndexOf("/") + 1);
+	const dot = name.lastIndexOf(".");
+	return dot > 0 ? `*${name.slice(dot)}` : null;
+}
+
+/** Track the patterns with Git LFS; the resulting .gitattributes change is committed with the files */
+export async function lfsTrack(cwd: string, gitPath: string, patterns: string[]): Promise<void> {
+	// Installs the clean/smudge filters and pre-push hook for this repository only
+	await runGit({ cwd, gitPath, args: ["lfs", "install", "--local"] });
+	await runGit({ cwd, gitPath, args: ["lfs", "track", ...patterns] });
+}
+
+export interface AddedLine {
+	/** 1-based line number in the working tree file */
+	line: number;
+	text: string;
+}
+
+// New files longer than this are assumed not to be notes and are not scanned
+const MAX_SCAN_BYTES = 1024 * 1024;
+
+// Working tree against HEAD with fixed path prefixes, whatever diff.noprefix or diff.mnemonicPrefix say
+const DIFF_HEAD_ARGS = ["-c", "core.quotePath=false", "diff", "HEAD", "-U0", "--no-color", "--no-ext-diff", "--no-renames", "--src-prefix=a/", "--dst-prefix=b/"];
+
+function unquoteDiffPath(raw: string): string {
+	if (!raw.startsWith("\"")) return raw;
+	return raw.slice(1, -1).replace(/\\(.)/g, (_, char: string) => (char === "t" ? "\t" : char === "n" ? "\n" : char));
+}
+
+/** Added lines per file in a -U0 diff; files that appear with no additions map to an empty list */
+function parseAddedLines(diff: string): Map<string, AddedLine[]> {
+	const files = new Map<string, AddedLine[]>();
+	let current: AddedLine[] | null = null;
+	let inHunk = false;
+	let nextLine = 0;
+
+	for (const line of diff.split("\n")) {
+		if (line.startsWith("diff --git ")) {
+			current = null;
+			inHunk = false;
+		} else if (!inHunk && line.startsWith("+++ ")) {
+			const target = line.slice(4);
+			current = target === "/dev/null" ? null : [];
+			if (current) files.set(unquoteDiffPath(target).replace(/^b\//, ""), current);
+		} else if (line.startsWith("@@")) {
+			const match = /^@@ -\d+(?:,\d+)? \+(\d+)/.exec(line);
+			inHunk = true;
+			nextLine = match ? parseInt(match[1]) : 0;
+		} else if (inHunk && line.startsWith("+") && current) {
+			current.push({ line: nextLine++, text: line.slice(1) });
+		}
+	}
+	return files;
+}
+
+function textToLines(content: string | null): AddedLine[] | null {
+	if (content === null || content.length > MAX_SCAN_BYTES || content.includes("\0")) return null;
+	const lines = content.split(/\r?\n/);
+	// A final line break ends the last line rather than starting an empty one
+	if (lines[lines.length - 1] === "") lines.pop();
+	return lines.map((text, i) => ({ line: i + 1, text }));
+}
+
+/** Diff lines for paths in the diff, the whole (readable, text) content for the rest */
+function collectAddedLines(inDiff: Map<string, AddedLine[]>, paths: string[], read: (filePath: string) => string | null): Map<string, AddedLine[]> {
+	const result = new Map<string, AddedLine[]>();
+	for (const filePath of paths) {
+		const lines = inDiff.get(filePath) ?? textToLines(read(filePath));
+		if (lines) result.set(filePath, lines);
+	}
+	return result;
+}
+
+/**
+ * Lines the next commit of these paths would add: the diff against HEAD for
+ * tracked files, the whole content for new ones. Binary and deleted files are left out.
+ */
+export async function getAddedLines(cwd: string, gitPath: string, paths: string[]): Promise<Map<string, AddedLine[]>> {
+	let diff = "";
+	try {
+		diff = await runGit({ cwd, gitPath, args: DIFF_HEAD_ARGS });
+	} catch {
+		// No commits yet: every file is new
+	}
+	const inDiff = parseAddedLines(diff);
+
+	// Read what the diff doesn't cover up front, so the shared loop can stay synchronous
+	const contents = new Map<string, string | null>();
+	await Promise.all(paths.filter((p) => !inDiff.has(p)).map(async (filePath) => {
+		const fullPath = path.join(cwd, filePath);
+		// Deleted and oversized files read as null; the size is checked first so large media is never loaded
+		const stat = await fs.stat(fullPath).catch(() => null);
+		const readable = stat !== null && stat.isFile() && stat.size <= MAX_SCAN_BYTES;
+		contents.set(filePath, readable ? await fs.readFile(fullPath, "utf8").catch(() => null) : null);
+	}));
+	return collectAddedLines(inDiff, paths, (filePath) => contents.get(filePath) ?? null);
+}
+
+export function getAddedLinesSync(cwd: string, gitPath: string, paths: string[]): Map<string, AddedLine[]> {
+	let diff = "";
+	try {
+		diff = runGitSync({ cwd, gitPath, args: DIFF_HEAD_ARGS });
+	} catch {
+		// No commits yet: every file is new
+	}
+	return collectAddedLines(parseAddedLines(diff), paths, (filePath) => {
+		const fullPath = path.join(cwd, filePath);
+		try {
+			const stat = statSync(fullPath);
+			if (!stat.isFile() || stat.size > MAX_SCAN_BYTES) return null;
+			return readFileSync(fullPath, "utf8");
+		} catch {
+			// Deleted
+			return null;
+		}
+	});
+}
+
+export interface DiffStat {
+	added: number;
+	removed: number;
+	/** Every change is inside the note's leading YAML frontmatter */
+	frontmatterOnly: boolean;
+}
+
+interface DiffHunk {
+	/** First line of the hunk in the working tree file; for pure deletions, the line before them */
+	start: number;
+	count: number;
+	removed: number;
+}
+
+/** Hunk headers per file in a -U0 diff; deleted files are left out */
+function parseDiffHunks(diff: string): Map<string, DiffHunk[]> {
+	const files = new Map<string, DiffHunk[]>();
+	let current: DiffHunk[] | null = null;
+	let inHunk = false;
+
+	for (const line of diff.split("\n")) {
+		if (line.startsWith("diff --git ")) {
+			current = null;
+			inHunk = false;
+		} else if (!inHunk && line.startsWith("+++ ")) {
+			const target = line.slice(4);
+			current = target === "/dev/null" ? null : [];
+			if (current) files.set(unquoteDiffPath(target).replace(/^b\//, ""), current);
+		} else if (line.startsWith("@@")) {
+			inHunk = true;
+			const match = /^@@ -\d+(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(line);
+			if (match && current) {
+				current.push({
+					removed: match[1] === undefined ? 1 : parseInt(match[1]),
+					start: parseInt(match[2]),
+					count: match[3] === undefined ? 1 : parseInt(match[3]),
+				});
+			}
+		}
+	}
+	return files;
+}
+
+/** Line number of the "---" closing a leading frontmatter block, or 0 without one */
+function frontmatterEnd(content: string): number {
+	const lines = content.split(/\r?\n/);
+	if (lines[0] !== "---") return 0;
+	const end = lines.findIndex((line, i) => i > 0 && (line === "---" || line === "..."));
+	return end + 1;
+}
+
+function toDiffStat(hunks: DiffHunk[], content: string | null): DiffStat {
+	const end = content === null ? 0 : frontmatterEnd(content);
+	return {
+		added: hunks.reduce((sum, h) => sum + h.count, 0),
+		removed: hunks.reduce((sum, h) => sum + h.removed, 0),
+		frontmatterOnly: end > 0 && hunks.length > 0
+			&& hunks.every((h) => (h.count > 0 ? h.start + h.count - 1 <= end : h.start < end)),
+	};
+}
+
+const isMarkdown = (filePath: string) => filePath.toLowerCase().endsWith(".md");
+
+/**
+ * Changed line counts against HEAD for these paths. Binary files count as
+ * 0 lines; untracked and deleted files are left out.
+ */
+export async function getDiffStats(cwd: string, gitPath: string, paths: string[]): Promise<Map<string, DiffStat>> {
+	const result = new Map<string, DiffStat>();
+	let diff: string;
+	try {
+		diff = await runGit({ cwd, gitPath, args: DIFF_HEAD_ARGS });
+	} catch {
+		// No commits yet: nothing to compare against
+		return result;
+	}
+	const hunks = parseDiffHunks(diff);
+
+	for (const filePath of paths) {
+		const fileHunks = hunks.get(filePath);
+		if (!fileHunks) continue;
+		let content: string | null = null;
+		if (isMarkdown(filePath)) {
+			content = await fs.readFile(path.join(cwd, filePath), "utf8").catch(() => null);
+		}
+		result.set(filePath, toDiffStat(fileHunks, content));
+	}
+	return result;
+}
+
+export function getDiffStatsSync(cwd: string, gitPath: string, paths: string[]): Map<string, DiffStat> {
+	const result = new Map<string, DiffStat>();
+	let diff: string;
+	try {
+		diff = runGitSync({ cwd, gitPath, args: DIFF_HEAD_ARGS });
+	} catch {
+		// No commits yet: nothing to compare against
+		return result;
+	}
+	const hunks = parseDiffHunks(diff);
+
+	for (const filePath of paths) {
+		const fileHunks = hunks.get(filePath);
+		if (!fileHunks) continue;
+		let content: string | null = null;
+		if (isMarkdown(filePath)) {
+			try {
+				content = readFileSync(path.join(cwd, filePath), "utf8");
+			} catch {
+				// Unreadable: counted, but not checked for frontmatter
+			}
+		}
+		result.set(filePath, toDiffStat(fileHunks, content));
+	}
+	return result;
+}
+
+// Every push the plugin starts: the branch to origin, becoming its upstream if it has none yet
+function pushArgs(branch: string): string[] {
+	return ["push", "-u", "origin", branch];
+}
+
+export async function push(cwd: string, gitPath: string, opts: GitCallOptions = {}): Promise<void> {
 	const branch = await getCurrentBranch(cwd, gitPath);
-	await runGit({ cwd, gitPath, args: ["push", "-u", "origin", branch] });
+	await runGit({ cwd, gitPath, args: pushArgs(branch), ...opts });
+}
+
+// Update remote-tracking branches without touching the working tree
+export async function fetch(cwd: string, gitPath: string, opts: GitCallOptions = {}): Promise<void> {
+	await runGit({ cwd, gitPath, args: ["fetch", "--prune"], ...opts });
+}
+
+export type PullStrategy = "merge" | "rebase" | "ff-only";
+
+export type PullOutcome = "up-to-date" | "fast-forward" | "merged" | "rebased";
+
+export interface PullOptions extends GitCallOptions {
+	strategy?: PullStrategy;
+	/** Stash uncommitted changes (including untracked files) before pulling and re-apply them afterwards */
+	autoStash?: boolean;
 }
 
 export interface PullResult {
@@ -201,9 +983,91 @@ export interface PullResult {
 	hasConflicts: boolean;
 	message: string;
 	notReady?: boolean;
+	/** Why the repository was not ready to pull */
+	state?: RepoState;
+	strategy?: PullStrategy;
+	outcome?: PullOutcome;
+	rebaseInProgress?: boolean;
+	/** Re-applying the auto-stash failed; the stash entry is kept */
+	stashConflict?: boolean;
+	/** Pull stopped on conflicts before the auto-stash could be re-applied */
+	stashRetained?: boolean;
+}
+
+const AUTOSTASH_MESSAGE = "auto-git-commit: autostash before pull";
+
+function pullArgs(strategy: PullStrategy): string[] {
+	// Explicit flags so the result does not depend on the user's global pull.rebase / pull.ff config
+	switch (strategy) {
+		case "rebase": return ["pull", "--rebase"];
+		case "ff-only": return ["pull", "--ff-only"];
+		default: return ["pull", "--no-rebase", "--ff"];
+	}
 }
 
-export async function pull(cwd: string, gitPath: string): Promise<PullResult> {
+async function getHeadCommit(cwd: string, gitPath: string): Promise<string> {
+	const stdout = await runGit({ cwd, gitPath, args: ["rev-parse", "HEAD"] });
+	return stdout.trim();
+}
+
+async function isAncestor(cwd: string, gitPath: string, ancestor: string, commit: string): Promise<boolean> {
+	try {
+		await runGit({ cwd, gitPath, args: ["merge-base", "--is-ancestor", ancestor, commit] });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+async function getPullOutcome(cwd: string, gitPath: string, before: string): Promise<PullOutcome> {
+	const after = await getHeadCommit(cwd, gitPath);
+	if (after === before) return "up-to-date";
+	if (!(await isAncestor(cwd, gitPath, before, after))) return "rebased";
+
+	const stdout = await runGit({ cwd, gitPath, args: ["rev-list", "--parents", "-n", "1", after] });
+	const parents = stdout.trim().split(/\s+/).length - 1;
+	return parents > 1 ? "merged" : "fast-forward";
+}
+
+async function gitPathExists(cwd: string, gitPath: string, name: string): Promise<boolean> {
+	const stdout = await runGit({ cwd, gitPath, args: ["rev-parse", "--git-path", name] });
+	try {
+		await fs.access(path.resolve(cwd, stdout.trim()));
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+export async function isRebaseInProgress(cwd: string, gitPath: string): Promise<boolean> {
+	try {
+		return (await gitPathExists(cwd, gitPath, "rebase-merge")) || (await gitPathExists(cwd, gitPath, "rebase-apply"));
+	} catch {
+		return false;
+	}
+}
+
+// Stash tracked and untracked changes; returns false when there was nothing to stash
+export async function stashChanges(cwd: string, gitPath: string, message: string): Promise<boolean> {
+	const stdout = await runGit({ cwd, gitPath, args: ["stash", "push", "--include-untracked", "-m", message] });
+	return !stdout.includes("No local changes to save");
+}
+
+async function stashPop(cwd: string, gitPath: string): Promise<void> {
+	await runGit({ cwd, gitPath, args: ["stash", "pop"] });
+}
+
+// Pop the newest stash entry saved with this message; a conflicting pop keeps the entry
+export async function popStash(cwd: string, gitPath: string, message: string): Promise<void> {
+	const stdout = await runGit({ cwd, gitPath, args: ["stash", "list", "--format=%gd%x00%gs"] });
+	const entry = stdout.split("\n").map((line) => line.split("\0")).find(([, subject]) => subject?.endsWith(`: ${message}`));
+	if (!entry) throw new GitError("unknown", `No stash entry "${message}"`, "git stash pop");
+	await runGit({ cwd, gitPath, args: ["stash", "pop", entry[0]] });
+}
+
+export async function pull(cwd: string, gitPath: string, options: PullOptions = {}): Promise<PullResult> {
+	const strategy = options.strategy ?? "merge";
+
 	// Check repo state first
 	const state = await detectRepoState(cwd, gitPath);
 	if (state !== "ready") {
@@ -211,28 +1075,61 @@ export async function pull(cwd: string, gitPath: string): Promise<PullResult> {
 			success: false,
 			hasConflicts: false,
 			message: `Repository not ready: ${state}`,
-			notReady: true
+			notReady: true,
+			state
 		};
 	}
 
+	let stashed = false;
+	if (options.autoStash && (await getChangedFiles(cwd, gitPath)).length > 0) {
+		stashed = await stashChanges(cwd, gitPath, AUTOSTASH_MESSAGE);
+	}
+
+	const before = await getHeadCommit(cwd, gitPath);
+	const args = pullArgs(strategy);
+	const { signal, timeoutMs, stallSeconds } = options;
+
+	let stdout: string;
 	try {
 		// Try to use upstream first
 		try {
-			const stdout = await runGit({ cwd, gitPath, args: ["pull"] });
-			return { success: true, hasConflicts: false, message: stdout };
-		} catch {
+			stdout = await runGit({ cwd, gitPath, args, signal, timeoutMs, stallSeconds });
+		} catch (e) {
+			// Only fall back for unclassified failures; conflicts, auth and network errors won't go away
+			if (!(e instanceof GitError) || e.kind !== "unknown") throw e;
 			// Fallback to explicit origin/branch
 			const branch = await getCurrentBranch(cwd, gitPath);
-			const stdout = await runGit({ cwd, gitPath, args: ["pull", "origin", branch] });
-			return { success: true, hasConflicts: false, message: stdout };
+			stdout = await runGit({ cwd, gitPath, args: [...args, "origin", branch], signal, timeoutMs, stallSeconds });
 		}
 	} catch (e) {
-		const msg = (e as Error).message;
-		if (msg.includes("CONFLICT") || msg.includes("Merge conflict")) {
-			return { success: false, hasConflicts: true, message: msg };
+		if (e instanceof GitError && e.kind === "merge-conflict") {
+			// Leave the stash alone: applying it on top of conflicted files would only make things worse
+			const rebaseInProgress = await isRebaseInProgress(cwd, gitPath);
+			return { success: false, hasConflicts: true, message: e.message, strategy, rebaseInProgress, stashRetained: stashed };
+		}
+		if (stashed) {
+			// Nothing was pulled, put the user's changes back where they were
+			try {
+				await stashPop(cwd, gitPath);
+			} catch {
+				// Stash entry is kept and can be restored manually
+			}
 		}
 		throw e;
 	}
+
+	const outcome = await getPullOutcome(cwd, gitPath, before);
+
+	if (stashed) {
+		try {
+			await stashPop(cwd, gitPath);
+		} catch (e) {
+			if (!(e instanceof GitError)) throw e;
+			return { success: false, hasConflicts: true, message: e.message, strategy, outcome, stashConflict: true };
+		}
+	}
+
+	return { success: true, hasConflicts: false, message: stdout, strategy, outcome };
 }
 
 export async function getConflictFiles(cwd: string, gitPath: string): Promise<string[]> {
@@ -249,8 +1146,127 @@ export async function hasConflicts(cwd: string, gitPath: string): Promise<boolea
 	return files.length > 0;
 }
 
-export async function markConflictsResolved(cwd: string, gitPath: string): Promise<void> {
-	await runGit({ cwd, gitPath, args: ["add", "-A"] });
+/** Which version of a conflicted file to keep: the vault's own or the pulled one */
+export type ConflictSide = "local" | "remote";
+
+export interface ConflictVersions {
+	/** Common ancestor; null when both sides added the file */
+	base: string | null;
+	/** null when that side deleted the file */
+	local: string | null;
+	remote: string | null;
+}
+
+/**
+ * Index stage holding one side of a conflict: 2 is "ours", 3 is "theirs".
+ * A merge or cherry-pick applies the other commit onto HEAD, so "ours" is
+ * local. A rebase or an autostash pop (no operation in progress) replays the
+ * local changes onto the pulled ones, so there "ours" is the remote side.
+ */
+async function conflictStage(cwd: string, gitPath: string, side: ConflictSide): Promise<2 | 3> {
+	const state = await getInterruptedState(cwd, gitPath);
+	const localStage = state === "merging" || state === "cherry-picking" ? 2 : 3;
+	if (side === "local") return localStage;
+	return localStage === 2 ? 3 : 2;
+}
+
+export async function getConflictVersions(cwd: string, gitPath: string, filePath: string): Promise<ConflictVersions> {
+	const localStage = await conflictStage(cwd, gitPath, "local");
+	const remoteStage = localStage === 2 ? 3 : 2;
+	const [base, local, remote] = await Promise.all(
+		[1, localStage, remoteStage].map((stage) => readFileAtRevision(cwd, gitPath, `:${stage}`, filePath))
+	);
+	return { base, local, remote };
+}
+
+/** Replace a conflicted file with one side's version and mark it resolved */
+export async function resolveConflict(cwd: string, gitPath: string, filePath: string, side: ConflictSide): Promise<void> {
+	const stage = await conflictStage(cwd, gitPath, side);
+	const stdout = await runGit({ cwd, gitPath, args: ["ls-files", "-u", "-z", "--", filePath] });
+	// Entries are "<mode> <object> <stage>\t<path>"
+	const stages = stdout.split("\0").filter(Boolean).map((entry) => entry.split("\t")[0].split(" ")[2]);
+
+	if (stages.includes(String(stage))) {
+		await runGit({ cwd, gitPath, args: ["checkout", stage === 2 ? "--ours" : "--theirs", "--", filePath] });
+		await runGit({ cwd, gitPath, args: ["add", "--", filePath] });
+	} else {
+		// That side deleted the file
+		await runGit({ cwd, gitPath, args: ["rm", "-q", "--", filePath] });
+	}
+}
+
+// Only the opening and closing markers: a line of "=======" is also a Markdown heading underline
+const CONFLICT_MARKER_PATTERN = /^(?:<{7}|>{7})(?: |$)/m;
+
+export function hasConflictMarkers(content: string): boolean {
+	return CONFLICT_MARKER_PATTERN.test(content);
+}
+
+/** Paths among these whose working tree file still has conflict markers; missing files have none */
+export async function findConflictMarkers(cwd: string, paths: string[]): Promise<string[]> {
+	const found: string[] = [];
+	for (const filePath of paths) {
+		try {
+			if (hasConflictMarkers(await fs.readFile(path.join(cwd, filePath), "utf8"))) found.push(filePath);
+		} catch {
+			// Deleted while resolving
+		}
+	}
+	return found;
+}
+
+async function assertNoConflictMarkers(cwd: string, paths: string[]): Promise<void> {
+	const marked = await findConflictMarkers(cwd, paths);
+	if (marked.length > 0) {
+		throw new GitError("conflict-markers", `Conflict markers left in: ${marked.join(", ")}`);
+	}
+}
+
+/** Mark one file resolved as it is in the working tree; refused while it still has conflict markers */
+export async function markFileResolved(cwd: string, gitPath: string, filePath: string): Promise<void> {
+	await assertNoConflictMarkers(cwd, [filePath]);
+	await runGit({ cwd, gitPath, args: ["add", "-A", "--", filePath] });
+}
+
+/** exclude: changed paths to leave unstaged, like CommitOptions.exclude; conflicted files are staged regardless */
+export async function markConflictsResolved(cwd: string, gitPath: string, exclude: string[] = []): Promise<void> {
+	const conflicts = await getConflictFiles(cwd, gitPath);
+	await assertNoConflictMarkers(cwd, conflicts);
+
+	const skip = new Set(exclude.filter((p) => !conflicts.includes(p)));
+	if (skip.size === 0) {
+		await runGit({ cwd, gitPath, args: ["add", "-A"] });
+	} else {
+		// Stage by name rather than add-then-reset: a reset would also drop what the merge itself staged there
+		const paths = (await getChangedFiles(cwd, gitPath)).filter((p) => !skip.has(p));
+		if (paths.length > 0) {
+			const file = writePathspecFile(paths);
+			try {
+				await runGit({ cwd, gitPath, args: ["--literal-pathspecs", "add", "-A", ...pathspecArgs(file)] });
+			} finally {
+				removePathspecFile(file);
+			}
+		}
+	}
+
+	// Conclude the merge, or continue a rebase with the remaining commits
+	const operation = await getRepoOperation(cwd, gitPath);
+	if (operation) {
+		await continueOperation(cwd, gitPath, operation);
+	}
+}
+
+/** Identity commits will use, including the plugin's override; empty when git has none */
+export async function getGitIdentity(cwd: string, gitPath: string): Promise<CommitIdentity> {
+	const read = async (key: string) => {
+		try {
+			return (await runGit({ cwd, gitPath, args: ["config", "--get", key] })).trim();
+		} catch {
+			// Exit code 1: not set
+			return "";
+		}
+	};
+	return { name: await read("user.name"), email: await read("user.email") };
 }
 
 export async function isGitRepo(cwd: string, gitPath: string): Promise<boolean> {
@@ -262,9 +1278,9 @@ export async function isGitRepo(cwd: string, gitPath: string): Promise<boolean>
 	}
 }
 
-export async function initRepo(cwd: string, gitPath: string, ignoreDir?: string): Promise<void> {
+export async function initRepo(cwd: string, gitPath: string, configIgnore?: ConfigIgnore): Promise<void> {
 	await runGit({ cwd, gitPath, args: ["init"] });
-	await ensureGitignore(cwd, ignoreDir);
+	await ensureGitignore(cwd, configIgnore);
 }
 
 export async function getRemoteUrl(cwd: string, gitPath: string): Promise<string> {
@@ -300,6 +1316,82 @@ export async function revertFile(cwd: string, gitPath: string, filePath: string)
 	}
 }
 
+export interface CommitInfo {
+	hash: string;
+	shortHash: string;
+	author: string;
+	email: string;
+	date: Date;
+	subject: string;
+	signature: SignatureStatus;
+	/** Repo-relative path of the file at this commit (differs from the current path across renames) */
+	path: string;
+}
+
+export type SignatureStatus = "good" | "untrusted" | "bad" | "unverifiable" | "none";
+
+// %G? codes: G good, U good but untrusted key, B bad, X/Y expired, R revoked, E cannot be checked, N unsigned
+function signatureStatus(code: string): SignatureStatus {
+	switch (code) {
+		case "G": return "good";
+		case "U": return "untrusted";
+		case "B":
+		case "R": return "bad";
+		case "X":
+		case "Y":
+		case "E": return "unverifiable";
+		default: return "none";
+	}
+}
+
+// Unit/record separators keep subjects with arbitrary punctuation intact
+const LOG_FORMAT = "%x1e%H%x1f%h%x1f%an%x1f%ae%x1f%aI%x1f%G?%x1f%s";
+
+function parseLog(stdout: string, fallbackPath: string): CommitInfo[] {
+	return stdout.split("\x1e").filter((r) => r.trim()).map((record) => {
+		const lines = record.split("\n");
+		const [hash, shortHash, author, email, date, signature, subject] = lines[0].split("\x1f");
+		const filePath = lines.slice(1).map((l) => l.trim()).find(Boolean) ?? fallbackPath;
+		return { hash, shortHash, author, email, date: new Date(date), subject: subject ?? "", signature: signatureStatus(signature), path: filePath };
+	});
+}
+
+export async function getFileHistory(cwd: string, gitPath: string, filePath: string, limit = 200): Promise<CommitInfo[]> {
+	try {
+		const stdout = await runGit({
+			cwd,
+			gitPath,
+			args: ["log", "--follow", `-n${limit}`, `--format=${LOG_FORMAT}`, "--name-only", "--", filePath],
+		});
+		return parseLog(stdout, filePath);
+	} catch (e) {
+		// No commits yet or file unknown to git
+		if (e instanceof GitError && e.kind === "unknown") return [];
+		throw e;
+	}
+}
+
+// Content of a file at a revision; filePath is relative to the repository root
+export async function getFileAtRevision(cwd: string, gitPath: string, revision: string, filePath: string): Promise<string> {
+	return runGit({ cwd, gitPath, args: ["show", `${revision}:${filePath}`] });
+}
+
+// Exact bytes of a file at a revision, so attachments survive a restore
+export async function getFileBytesAtRevision(cwd: string, gitPath: string, revision: string, filePath: string): Promise<ArrayBuffer> {
+	const bytes = await runGitBuffer({ cwd, gitPath, args: ["show", `${revision}:${filePath}`] });
+	return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+// Like getFileAtRevision, but null when the file (or the revision) does not exist
+export async function readFileAtRevision(cwd: string, gitPath: string, revision: string, filePath: string): Promise<string | null> {
+	try {
+		return await getFileAtRevision(cwd, gitPath, revision, filePath);
+	} catch (e) {
+		if (e instanceof GitError && e.kind === "unknown") return null;
+		throw e;
+	}
+}
+
 export type FileStatus = "M" | "A" | "R" | "U" | "";
 
 function parsePorcelainV1Z(stdout: string): Map<string, FileStatus> {
@@ -361,56 +1453,103 @@ export async function getTrackedFiles(cwd: string, gitPath: string): Promise<Set
 	return tracked;
 }
 
+export type StaleLockResult = "removed" | "no-lock" | "git-running";
+
+// Best effort: any git process on the machine might be the one holding the lock
+function isGitProcessRunning(): Promise<boolean> {
+	const isWindows = process.platform === "win32";
+	const cmd = isWindows ? "tasklist" : "ps";
+	const args = isWindows ? ["/FI", "IMAGENAME eq git.exe", "/NH"] : ["-A", "-o", "comm="];
+
+	return new Promise((resolve) => {
+		execFile(cmd, args, { windowsHide: true }, (err, stdout) => {
+			if (err) {
+				// Can't tell, so assume the lock may still be in use
+				resolve(true);
+				return;
+			}
+			if (isWindows) {
+				resolve(/\bgit\.exe\b/i.test(stdout));
+				return;
+			}
+			resolve(stdout.split("\n").some((line) => {
+				const name = path.basename(line.trim());
+				return name === "git" || name.startsWith("git-");
+			}));
+		});
+	});
+}
+
+// Remove .git/index.lock left behind by a crashed git process
+export async function removeStaleIndexLock(cwd: string, gitPath: string): Promise<StaleLockResult> {
+	const stdout = await runGit({ cwd, gitPath, args: ["rev-parse", "--git-path", "index.lock"] });
+	const lockPath = path.resolve(cwd, stdout.trim());
+
+	try {
+		await fs.access(lockPath);
+	} catch {
+		return "no-lock";
+	}
+
+	if (await isGitProcessRunning()) {
+		return "git-running";
+	}
+
+	await fs.unlink(lockPath);
+	return "removed";
+}
+
 // Get remote default branch (main/master)
-export async function getRemoteDefaultBranch(cwd: string, gitPath: string): Promise<string | null> {
+export async function getRemoteDefaultBranch(cwd: string, gitPath: string, opts: GitCallOptions = {}): Promise<string | null> {
 	try {
 		// Try to get from remote HEAD
-		const stdout = await runGit({ cwd, gitPath, args: ["remote", "show", "origin"] });
+		const stdout = await runGit({ cwd, gitPath, args: ["remote", "show", "origin"], ...opts });
 		const match = stdout.match(/HEAD branch:\s*(\S+)/);
 		if (match && match[1] !== "(unknown)") return match[1];
-	} catch {
+	} catch (e) {
+		if (isCancelled(e)) throw e;
 		// Fallback: try common branch names
 	}
 
 	// Try to find main or master in remote refs
 	try {
-		const refs = await runGit({ cwd, gitPath, args: ["ls-remote", "--heads", "origin"] });
+		const refs = await runGit({ cwd, gitPath, args: ["ls-remote", "--heads", "origin"], ...opts });
 		if (!refs.trim()) return null; // Empty remote
 		if (refs.includes("refs/heads/main")) return "main";
 		if (refs.includes("refs/heads/master")) return "master";
 		// Return first branch found
 		const match = refs.match(/refs\/heads\/(\S+)/);
 		if (match) return match[1];
-	} catch {
-		// Ignore
+	} catch (e) {
+		if (isCancelled(e)) throw e;
 	}
 
 	return null; // Remote is empty or unreachable
 }
 
 // Initialize repo with first commit and push to empty remote
-export async function initAndPush(cwd: string, gitPath: string, url: string, branch: string = "main", ignoreDir?: string): Promise<void> {
+export async function initAndPush(cwd: string, gitPath: string, url: string, branch: string = "main", configIgnore?: ConfigIgnore, opts: GitCallOptions = {}): Promise<void> {
 	// Initialize with branch name
 	await runGit({ cwd, gitPath, args: ["init", "-b", branch] });
 
-	// Ensure .gitignore excludes config dir if specified
-	await ensureGitignore(cwd, ignoreDir);
+	// Ensure .gitignore keeps unsynced parts of the config dir out
+	await ensureGitignore(cwd, configIgnore);
 
 	// Add all files
 	await runGit({ cwd, gitPath, args: ["add", "-A"] });
 
 	// Create initial commit
-	await runGit({ cwd, gitPath, args: ["commit", "-m", "Initial commit"] });
+	await runCommitting({ cwd, gitPath, args: ["commit", "-m", "Initial commit"] });
 
 	// Add remote
 	await runGit({ cwd, gitPath, args: ["remote", "add", "origin", url] });
 
 	// Push with upstream
-	await runGit({ cwd, gitPath, args: ["push", "-u", "origin", branch] });
+	await runGit({ cwd, gitPath, args: pushArgs(branch), ...opts });
 }
 
 // Connect to existing remote repo (fetch and checkout)
-export async function connectToRemote(cwd: string, gitPath: string, url: string, ignoreDir?: string): Promise<{ branch: string }> {
+export async function connectToRemote(cwd: string, gitPath: string, url: string, configIgnore?: ConfigIgnore, opts: GitCallOptions = {}): Promise<{ branch: string }> {
 	// Initialize if needed
 	if (!(await isGitRepo(cwd, gitPath))) {
 		await runGit({ cwd, gitPath, args: ["init", "-b", "main"] });
@@ -425,26 +1564,27 @@ export async function connectToRemote(cwd: string, gitPath: string, url: string,
 	}
 
 	// Fetch remote
-	await runGit({ cwd, gitPath, args: ["fetch", "origin"] });
+	await runGit({ cwd, gitPath, args: ["fetch", "origin"], ...opts });
 
 	// Get remote default branch (null if remote is empty)
-	const remoteBranch = await getRemoteDefaultBranch(cwd, gitPath);
+	const remoteBranch = await getRemoteDefaultBranch(cwd, gitPath, opts);
 
 	if (!remoteBranch) {
 		// Remote is empty - create initial commit and push
-		await ensureGitignore(cwd, ignoreDir);
+		await ensureGitignore(cwd, configIgnore);
 		await runGit({ cwd, gitPath, args: ["add", "-A"] });
 		try {
-			await runGit({ cwd, gitPath, args: ["commit", "-m", "Initial commit"] });
+			await runCommitting({ cwd, gitPath, args: ["commit", "-m", "Initial commit"] });
 		} catch (e) {
 			// Might fail if no files to commit, that's ok
-			const msg = (e as Error).message;
-			if (!msg.includes("nothing to commit")) {
+			if (!(e instanceof GitError && e.kind === "nothing-to-commit")) {
 				throw e;
 			}
 		}
-		await runGit({ cwd, gitPath, args: ["push", "-u", "origin", "main"] });
-		return { branch: "main" };
+		// Push whatever branch the vault is on rather than assuming "main"
+		const branch = await getCurrentBranch(cwd, gitPath);
+		await runGit({ cwd, gitPath, args: pushArgs(branch), ...opts });
+		return { branch };
 	}
 
 	// Remote has content - check if we have local commits
@@ -473,62 +1613,145 @@ export async function connectToRemote(cwd: string, gitPath: string, url: string,
 }
 
 // Set upstream for current branch
-export async function setUpstream(cwd: string, gitPath: string): Promise<void> {
+export async function setUpstream(cwd: string, gitPath: string, opts: GitCallOptions = {}): Promise<void> {
 	const branch = await getCurrentBranch(cwd, gitPath);
-	await runGit({ cwd, gitPath, args: ["push", "-u", "origin", branch] });
+	await runGit({ cwd, gitPath, args: pushArgs(branch), ...opts });
 }
 
-// Get current branch name
-async function getCurrentBranch(cwd: string, gitPath: string): Promise<string> {
-	const stdout = await runGit({ cwd, gitPath, args: ["rev-parse", "--abbrev-ref", "HEAD"] });
-	return stdout.trim();
+// Get current branch name (also works on an unborn branch before the first commit)
+export async function getCurrentBranch(cwd: string, gitPath: string): Promise<string> {
+	try {
+		const stdout = await runGit({ cwd, gitPath, args: ["symbolic-ref", "--short", "-q", "HEAD"] });
+		return stdout.trim();
+	} catch (e) {
+		// symbolic-ref exits 1 without output when HEAD is detached
+		if (e instanceof GitError && e.kind === "unknown") {
+			throw new GitError("detached-head", "HEAD is detached", "git symbolic-ref --short -q HEAD", e.exitCode);
+		}
+		throw e;
+	}
+}
+
+export interface BranchInfo {
+	/** Short name, e.g. "drafts" or "origin/drafts" */
+	name: string;
+	remote: boolean;
+	current: boolean;
+	upstream: string;
+}
+
+export async function listBranches(cwd: string, gitPath: string): Promise<BranchInfo[]> {
+	const stdout = await runGit({
+		cwd,
+		gitPath,
+		args: ["for-each-ref", "--format=%(refname)%00%(refname:short)%00%(upstream:short)%00%(HEAD)", "refs/heads", "refs/remotes"],
+	});
+
+	const branches: BranchInfo[] = [];
+	for (const line of stdout.split("\n").filter(Boolean)) {
+		const [ref, name, upstream, head] = line.split("\0");
+		// Skip symbolic refs like refs/remotes/origin/HEAD
+		if (ref.endsWith("/HEAD")) continue;
+		branches.push({ name, remote: ref.startsWith("refs/remotes/"), current: head === "*", upstream });
+	}
+	return branches;
+}
+
+// Create a branch from the current commit and switch to it
+export async function createBranch(cwd: string, gitPath: string, name: string): Promise<void> {
+	await runGit({ cwd, gitPath, args: ["checkout", "-b", name] });
+}
+
+export async function switchBranch(cwd: string, gitPath: string, name: string): Promise<void> {
+	await runGit({ cwd, gitPath, args: ["checkout", name] });
+}
+
+// Check out a remote branch as a local tracking branch; returns the local branch name
+export async function checkoutRemoteBranch(cwd: string, gitPath: string, remoteBranch: string): Promise<string> {
+	const localName = remoteBranch.slice(remoteBranch.indexOf("/") + 1);
+	const branches = await listBranches(cwd, gitPath);
+	if (branches.some((b) => !b.remote && b.name === localName)) {
+		await switchBranch(cwd, gitPath, localName);
+	} else {
+		await runGit({ cwd, gitPath, args: ["checkout", "-b", localName, "--track", remoteBranch] });
+	}
+	return localName;
+}
+
+export async function renameBranch(cwd: string, gitPath: string, oldName: string, newName: string): Promise<void> {
+	await runGit({ cwd, gitPath, args: ["branch", "-m", oldName, newName] });
+}
+
+export async function deleteBranch(cwd: string, gitPath: string, name: string, force = false): Promise<void> {
+	await runGit({ cwd, gitPath, args: ["branch", force ? "-D" : "-d", name] });
 }
 
 // Synchronous version for use during app close
-export function getChangedFilesSync(cwd: string, gitPath: string): string[] {
-	try {
-		const stdout = runGitSync({ cwd, gitPath, args: ["status", "--porcelain=v1", "-z"] });
-		if (!stdout) return [];
-		const parts = stdout.split("\0").filter(Boolean);
-		const files: string[] = [];
-		for (let i = 0; i < parts.length; i++) {
-			const entry = parts[i];
-			const statusCode = entry.slice(0, 2);
-			const filePath = entry.slice(3);
-			if (statusCode.startsWith("R") || statusCode.startsWith("C")) {
-				const newPath = parts[++i];
-				if (newPath) files.push(newPath);
-				continue;
-			}
-			if (filePath) files.push(filePath);
-		}
-		return [...new Set(files)];
+export function getChangedFileEntriesSync(cwd: string, gitPath: string): ChangedFile[] {
+	try {
+		return parseChangedFiles(runGitSync({ cwd, gitPath, args: CHANGED_FILES_ARGS }));
 	} catch {
 		return [];
 	}
 }
 
-// Sync commit only, then spawn detached push process
-export function commitSyncAndPushDetached(cwd: string, gitPath: string, message: string): void {
+/** Current branch, or null when HEAD is detached or git fails */
+export function getCurrentBranchSync(cwd: string, gitPath: string): string | null {
+	try {
+		return runGitSync({ cwd, gitPath, args: ["symbolic-ref", "--short", "-q", "HEAD"] }).trim() || null;
+	} catch {
+		return null;
+	}
+}
+
+/** Commit synchronously and push in a detached process; returns the commit being pushed, or null */
+export function commitSyncAndPushDetached(cwd: string, gitPath: string, message: string, exclude: string[] = []): string | null {
 	try {
 		runGitSync({ cwd, gitPath, args: ["add", "-A"] });
-		runGitSync({ cwd, gitPath, args: ["commit", "-m", message] });
+		if (exclude.length > 0) {
+			const file = writePathspecFile(exclude);
+			try {
+				runGitSync({ cwd, gitPath, args: ["--literal-pathspecs", "reset", "-q", ...pathspecArgs(file)] });
+			} finally {
+				removePathspecFile(file);
+			}
+		}
+		runGitSync({ cwd, gitPath, args: ["commit", "-m", message], timeoutMs: signingArgs.length > 0 ? SIGNING_TIMEOUT_MS : undefined });
 	} catch {
 		// Commit failed or nothing to commit
-		return;
+		return null;
 	}
 
-	// Spawn detached push process that continues after parent exits
+	return pushDetached(cwd, gitPath);
+}
+
+/**
+ * Spawn the same push as push() that keeps running after Obsidian exits. Its
+ * outcome can't be observed; check it later with isPushed on the returned HEAD
+ * commit. Null when nothing was pushed: detached HEAD, no origin or no commits.
+ */
+export function pushDetached(cwd: string, gitPath: string): string | null {
+	const branch = getCurrentBranchSync(cwd, gitPath);
+	if (!branch) return null;
 	try {
-		const child = spawn(gitPath, ["push"], {
+		runGitSync({ cwd, gitPath, args: ["remote", "get-url", "origin"] });
+		const head = runGitSync({ cwd, gitPath, args: ["rev-parse", "HEAD"] }).trim();
+		const child = spawn(gitPath, pushArgs(branch), {
 			cwd,
 			detached: true,
 			stdio: "ignore",
 			windowsHide: true,
-			env: getGitEnv(),
+			env: gitEnvFor(cwd, gitPath),
 		});
 		child.unref();
+		return head;
 	} catch {
-		// Ignore spawn errors
+		// No origin, no commits yet or spawn failed
+		return null;
 	}
 }
+
+/** Whether the upstream contains the commit, i.e. a push of it succeeded (a successful push updates the tracking ref) */
+export async function isPushed(cwd: string, gitPath: string, commit: string): Promise<boolean> {
+	return isAncestor(cwd, gitPath, commit, "@{upstream}");
+}
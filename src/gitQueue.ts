@@ -0,0 +1,108 @@
+import { GitError } from "./git";
+
+/** user = explicit commands, auto = automation (auto commit/pull/push), background = status polling */
+export type GitTaskPriority = "user" | "auto" | "background";
+
+export interface GitTaskOptions {
+	priority?: GitTaskPriority;
+	/** Waiting tasks with the same key are coalesced into a single run */
+	key?: string;
+}
+
+interface QueuedTask {
+	run: () => Promise<unknown>;
+	priority: GitTaskPriority;
+	key?: string;
+	promise: Promise<unknown>;
+	resolve: (value: unknown) => void;
+	reject: (reason: unknown) => void;
+}
+
+const PRIORITY_RANK: Record<GitTaskPriority, number> = {
+	user: 2,
+	auto: 1,
+	background: 0,
+};
+
+// Backoff while another process (terminal, other git client) holds .git/index.lock
+const LOCK_RETRY_DELAYS = [250, 500, 1000, 2000];
+
+/** Runs git operations one at a time, highest priority first, so they never race for the index lock */
+export class GitOperationQueue {
+	private pending: QueuedTask[] = [];
+	private running = false;
+
+	run<T>(task: () => Promise<T>, options: GitTaskOptions = {}): Promise<T> {
+		const priority = options.priority ?? "user";
+
+		if (options.key) {
+			const existing = this.pending.find((p) => p.key === options.key);
+			if (existing) {
+				if (PRIORITY_RANK[priority] > PRIORITY_RANK[existing.priority]) {
+					this.pending.splice(this.pending.indexOf(existing), 1);
+					existing.priority = priority;
+					this.insert(existing);
+				}
+				return existing.promise as Promise<T>;
+			}
+		}
+
+		let resolve!: (value: unknown) => void;
+		let reject!: (reason: unknown) => void;
+		const promise = new Promise<unknown>((res, rej) => {
+			resolve = res;
+			reject = rej;
+		});
+
+		this.insert({ run: task, priority, key: options.key, promise, resolve, reject });
+		void this.drain();
+		return promise as Promise<T>;
+	}
+
+	private insert(task: QueuedTask): void {
+		// Keep FIFO order within the same priority
+		const rank = PRIORITY_RANK[task.priority];
+		const index = this.pending.findIndex((p) => PRIORITY_RANK[p.priority] < rank);
+		if (index === -1) {
+			this.pending.push(task);
+		} else {
+			this.pending.splice(index, 0, task);
+		}
+	}
+
+	private async drain(): Promise<void> {
+		if (this.running) return;
+		this.running = true;
+
+		try {
+			let task = this.pending.shift();
+			while (task) {
+				try {
+					task.resolve(await this.execute(task));
+				} catch (e) {
+					task.reject(e);
+				}
+				task = this.pending.shift();
+			}
+		} finally {
+			this.running = false;
+		}
+	}
+
+	private async execute(task: QueuedTask): Promise<unknown> {
+		for (let attempt = 0; ; attempt++) {
+			try {
+				return await task.run();
+			} catch (e) {
+				if (!(e instanceof GitError) || e.kind !== "index-locked" || attempt >= LOCK_RETRY_DELAYS.length) {
+					throw e;
+				}
+				await sleep(LOCK_RETRY_DELAYS[attempt]);
+			}
+		}
+	}
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => window.setTimeout(resolve, ms));
+}
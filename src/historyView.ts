@@ -0,0 +1,278 @@
+import { App, Component, ItemView, MarkdownRenderer, Modal, moment, Notice, normalizePath, setIcon, TFile, WorkspaceLeaf } from "obsidian";
+import type AutoGitPlugin from "./main";
+import { CommitInfo, getFileAtRevision, getFileBytesAtRevision, getFileHistory, SignatureStatus } from "./git";
+import { describeError, t } from "./i18n";
+import { ConfirmModal } from "./modals";
+
+export const VIEW_TYPE_HISTORY = "auto-git-history";
+
+const SIGNATURE_ICONS: Record<Exclude<SignatureStatus, "none">, string> = {
+	good: "shield-check",
+	untrusted: "shield",
+	bad: "shield-x",
+	unverifiable: "shield-question",
+};
+
+/** Shield icon for signed commits, with the verification result as tooltip */
+export function renderSignatureBadge(container: HTMLElement, status: SignatureStatus): void {
+	if (status === "none") return;
+	const badge = container.createSpan({
+		cls: `auto-git-signature mod-${status}`,
+		attr: { "aria-label": t().signatureLabels[status] },
+	});
+	setIcon(badge, SIGNATURE_ICONS[status]);
+}
+
+/** Side panel listing the commits of the active note */
+export class NoteHistoryView extends ItemView {
+	private file: TFile | null = null;
+	private commits: CommitInfo[] = [];
+	// Ignore results of a load superseded by a newer one (fast file switching)
+	private loadId = 0;
+
+	constructor(leaf: WorkspaceLeaf, private plugin: AutoGitPlugin) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_HISTORY;
+	}
+
+	getDisplayText(): string {
+		return t().historyViewTitle;
+	}
+
+	getIcon(): string {
+		return "history";
+	}
+
+	async onOpen(): Promise<void> {
+		this.registerEvent(this.app.workspace.on("file-open", (file) => {
+			if (file) void this.setFile(file);
+		}));
+		await this.setFile(this.app.workspace.getActiveFile());
+	}
+
+	async onClose(): Promise<void> {
+		this.contentEl.empty();
+	}
+
+	async setFile(file: TFile | null): Promise<void> {
+		this.file = file;
+		await this.refresh();
+	}
+
+	async refresh(): Promise<void> {
+		const id = ++this.loadId;
+		const file = this.file;
+		const cwd = this.plugin.getVaultPathSafe();
+
+		if (!file || !cwd) {
+			this.commits = [];
+			this.render();
+			return;
+		}
+
+		this.renderMessage(t().historyLoading);
+		try {
+			const commits = await this.plugin.gitQueue.run(
+				() => getFileHistory(cwd, this.plugin.settings.gitPath, file.path),
+				{ priority: "user" }
+			);
+			if (id !== this.loadId) return;
+			this.commits = commits;
+			this.render();
+		} catch (e) {
+			if (id !== this.loadId) return;
+			this.renderMessage(describeError(e));
+		}
+	}
+
+	private renderMessage(message: string): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("auto-git-history");
+		this.renderHeader(contentEl);
+		contentEl.createDiv({ cls: "auto-git-history-empty", text: message });
+	}
+
+	private renderHeader(container: HTMLElement): void {
+		const header = container.createDiv({ cls: "auto-git-history-header" });
+		header.createDiv({ cls: "auto-git-history-title", text: this.file?.path ?? t().historyViewTitle });
+
+		const refreshBtn = header.createDiv({ cls: "clickable-icon", attr: { "aria-label": t().historyRefresh } });
+		setIcon(refreshBtn, "refresh-cw");
+		refreshBtn.addEventListener("click", () => void this.refresh());
+	}
+
+	private render(): void {
+		const i18n = t();
+		const { contentEl } = this;
+
+		if (!this.file) {
+			this.renderMessage(i18n.historyNoFile);
+			return;
+		}
+		if (this.commits.length === 0) {
+			this.renderMessage(i18n.historyEmpty);
+			return;
+		}
+
+		contentEl.empty();
+		contentEl.addClass("auto-git-history");
+		this.renderHeader(contentEl);
+
+		const listEl = contentEl.createDiv({ cls: "auto-git-history-list" });
+		this.commits.forEach((commit) => {
+			const itemEl = listEl.createDiv({ cls: "auto-git-history-item" });
+			itemEl.createDiv({ cls: "auto-git-history-subject", text: commit.subject });
+			const metaEl = itemEl.createDiv({
+				cls: "auto-git-history-meta",
+				text: `${commit.shortHash} · ${commit.author} · ${moment(commit.date).format("YYYY-MM-DD HH:mm")}`,
+			});
+			renderSignatureBadge(metaEl, commit.signature);
+
+			const actionsEl = itemEl.createDiv({ cls: "auto-git-history-actions" });
+			this.addItemAction(actionsEl, "eye", i18n.historyPreview, () => void this.preview(commit));
+			this.addItemAction(actionsEl, "rotate-ccw", i18n.historyRestore, () => this.confirmRestore(commit));
+			this.addItemAction(actionsEl, "copy-plus", i18n.historyRestoreCopy, () => void this.restoreAsCopy(commit));
+		});
+	}
+
+	private addItemAction(container: HTMLElement, icon: string, label: string, onClick: () => void): void {
+		const btn = container.createDiv({ cls: "clickable-icon", attr: { "aria-label": label } });
+		setIcon(btn, icon);
+		btn.addEventListener("click", (evt) => {
+			evt.stopPropagation();
+			onClick();
+		});
+	}
+
+	private async loadRevision(commit: CommitInfo): Promise<string> {
+		const cwd = this.plugin.getVaultPathSafe();
+		if (!cwd) throw new Error(t().noticeDesktopOnly);
+		return this.plugin.gitQueue.run(() => getFileAtRevision(cwd, this.plugin.settings.gitPath, commit.hash, commit.path));
+	}
+
+	// Restores write bytes, not text, so images and PDFs come back intact
+	private async loadRevisionBytes(commit: CommitInfo): Promise<ArrayBuffer> {
+		const cwd = this.plugin.getVaultPathSafe();
+		if (!cwd) throw new Error(t().noticeDesktopOnly);
+		return this.plugin.gitQueue.run(() => getFileBytesAtRevision(cwd, this.plugin.settings.gitPath, commit.hash, commit.path));
+	}
+
+	private async preview(commit: CommitInfo): Promise<void> {
+		const file = this.file;
+		if (!file) return;
+		try {
+			const content = await this.loadRevision(commit);
+			new RevisionPreviewModal(this.app, file, commit, content, {
+				onRestore: () => this.confirmRestore(commit),
+				onRestoreCopy: () => void this.restoreAsCopy(commit),
+			}).open();
+		} catch (e) {
+			new Notice(t().noticeHistoryLoadFailed(describeError(e)));
+		}
+	}
+
+	private confirmRestore(commit: CommitInfo): void {
+		const i18n = t();
+		new ConfirmModal(this.app, {
+			title: i18n.historyRestoreConfirmTitle,
+			message: i18n.historyRestoreConfirmDesc(commit.shortHash),
+			confirmText: i18n.historyRestore,
+			onConfirm: () => void this.restore(commit),
+		}).open();
+	}
+
+	private async restore(commit: CommitInfo): Promise<void> {
+		const file = this.file;
+		if (!file) return;
+		try {
+			const content = await this.loadRevisionBytes(commit);
+			await this.app.vault.modifyBinary(file, content);
+			new Notice(t().noticeRevisionRestored(commit.shortHash));
+		} catch (e) {
+			new Notice(t().noticeRestoreFailed(describeError(e)));
+		}
+	}
+
+	private async restoreAsCopy(commit: CommitInfo): Promise<void> {
+		const file = this.file;
+		if (!file) return;
+		try {
+			const content = await this.loadRevisionBytes(commit);
+			const copyPath = this.availableCopyPath(file, commit.shortHash);
+			await this.app.vault.createBinary(copyPath, content);
+			new Notice(t().noticeRevisionCopied(copyPath));
+		} catch (e) {
+			new Notice(t().noticeRestoreFailed(describeError(e)));
+		}
+	}
+
+	private availableCopyPath(file: TFile, shortHash: string): string {
+		const dir = file.parent && !file.parent.isRoot() ? `${file.parent.path}/` : "";
+		const ext = file.extension ? `.${file.extension}` : "";
+		let candidate = normalizePath(`${dir}${file.basename} (${shortHash})${ext}`);
+		for (let i = 2; this.app.vault.getAbstractFileByPath(candidate); i++) {
+			candidate = normalizePath(`${dir}${file.basename} (${shortHash} ${i})${ext}`);
+		}
+		return candidate;
+	}
+}
+
+interface RevisionPreviewActions {
+	onRestore: () => void;
+	onRestoreCopy: () => void;
+}
+
+/** Read-only rendering of a note at an earlier commit */
+class RevisionPreviewModal extends Modal {
+	// Owns the lifecycle of embeds rendered by MarkdownRenderer
+	private component = new Component();
+
+	constructor(
+		app: App,
+		private file: TFile,
+		private commit: CommitInfo,
+		private content: string,
+		private actions: RevisionPreviewActions
+	) {
+		super(app);
+	}
+
+	onOpen() {
+		const i18n = t();
+		const { contentEl } = this;
+		this.modalEl.addClass("auto-git-revision-modal");
+
+		contentEl.createEl("h2", { text: this.file.basename });
+		contentEl.createEl("p", {
+			cls: "auto-git-history-meta",
+			text: `${this.commit.shortHash} · ${this.commit.subject} · ${moment(this.commit.date).format("YYYY-MM-DD HH:mm")}`,
+		});
+
+		const bodyEl = contentEl.createDiv({ cls: "auto-git-revision-content markdown-rendered" });
+		if (this.file.extension === "md") {
+			this.component.load();
+			void MarkdownRenderer.render(this.app, this.content, bodyEl, this.file.path, this.component);
+		} else {
+			bodyEl.createEl("pre", { text: this.content });
+		}
+
+		const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+		buttonContainer.createEl("button", { text: i18n.historyRestoreCopy }).addEventListener("click", () => {
+			this.close();
+			this.actions.onRestoreCopy();
+		});
+		buttonContainer.createEl("button", { text: i18n.historyRestore, cls: "mod-warning" }).addEventListener("click", () => {
+			this.close();
+			this.actions.onRestore();
+		});
+	}
+
+	onClose() {
+		this.component.unload();
+		this.contentEl.empty();
+	}
+}
@@ -1,3 +1,8 @@
+import { errorDetail, GitError, GitErrorKind, InterruptedState, PullOutcome, SignatureStatus, StaleLockResult } from "./git";
+import { ConfigCategory } from "./configSync";
+import type { LargeFilePolicy, SecretScanPolicy } from "./settings";
+import type { SummaryFileKind, SummaryVerb } from "./summary";
+
 type Translations = {
 	// Settings tab
 	settingsTitle: string;
@@ -8,9 +13,20 @@ type Translations = {
 	autoCommitName: string;
 	autoCommitDesc: string;
 
+	commitModeName: string;
+	commitModeDesc: string;
+	commitModeDebounce: string;
+	commitModeInterval: string;
+
 	debounceName: string;
 	debounceDesc: string;
 
+	maxWaitName: string;
+	maxWaitDesc: string;
+
+	commitIntervalName: string;
+	commitIntervalDesc: string;
+
 	autoPushName: string;
 	autoPushDesc: string;
 
@@ -20,28 +36,124 @@ type Translations = {
 	autoPullOnOpenName: string;
 	autoPullOnOpenDesc: string;
 
+	pullStrategyName: string;
+	pullStrategyDesc: string;
+	pullStrategyMerge: string;
+	pullStrategyRebase: string;
+	pullStrategyFfOnly: string;
+
+	autoStashName: string;
+	autoStashDesc: string;
+
+	fetchIntervalName: string;
+	fetchIntervalDesc: string;
+	autoPullAfterFetchName: string;
+	autoPullAfterFetchDesc: string;
+
 	commitOnCloseName: string;
 	commitOnCloseDesc: string;
 
 	templateName: string;
 	templateDesc: string;
+	templatePreviewLabel: string;
 
 	gitPathName: string;
 	gitPathDesc: string;
 	gitPathPlaceholder: string;
 
-	ignoreObsidianName: string;
-	ignoreObsidianDesc: string;
+	networkTimeoutName: string;
+	networkTimeoutDesc: string;
+	stallTimeoutName: string;
+	stallTimeoutDesc: string;
+
+	configSyncName: string;
+	configSyncDesc: (configDir: string) => string;
+	configCategoryNames: Record<ConfigCategory, string>;
+
+	excludePatternsName: string;
+	excludePatternsDesc: string;
+	syncGitignoreName: string;
+	syncGitignoreDesc: string;
+	syncGitignoreButton: string;
+	noticeGitignoreSynced: (count: number) => string;
+
+	largeFileLimitName: string;
+	largeFileLimitDesc: string;
+	largeFilePolicyName: string;
+	largeFilePolicyDesc: string;
+	largeFilePolicyNames: Record<LargeFilePolicy, string>;
+
+	secretScanName: string;
+	secretScanDesc: string;
+	secretScanPolicyNames: Record<SecretScanPolicy, string>;
+	secretPatternsName: string;
+	secretPatternsDesc: string;
+	secretPatternsInvalid: (patterns: string) => string;
+	secretAllowlistName: string;
+	secretAllowlistDesc: string;
 
 	debugLogName: string;
 	debugLogDesc: string;
 
 	includeFileListName: string;
 	includeFileListDesc: string;
+	fileListLimitName: string;
+	fileListLimitDesc: string;
+
+	commitAuthorName: string;
+	commitAuthorDesc: string;
+	deviceAuthorName: string;
+	deviceAuthorDesc: string;
+	authorNamePlaceholder: string;
+	authorEmailPlaceholder: string;
+	signingFormatName: string;
+	signingFormatDesc: string;
+	signingFormatOff: string;
+	signingFormatGpg: string;
+	signingFormatSsh: string;
+	signingKeyGpgName: string;
+	signingKeyGpgDesc: string;
+	signingKeySshName: string;
+	signingKeySshDesc: string;
+	signingTestName: string;
+	signingTestDesc: string;
+	signingTestButton: string;
+	noticeSigningWorks: string;
+	noticeSigningFailed: (msg: string) => string;
 
 	showStatusBadgeName: string;
 	showStatusBadgeDesc: string;
 
+	showStatusBarName: string;
+	showStatusBarDesc: string;
+	statusBarUnavailable: string;
+	statusBarDetached: string;
+	statusBarChanged: (count: number) => string;
+	statusBarBlocked: string;
+	statusBarBranch: (name: string) => string;
+	statusBarUncommitted: (count: number) => string;
+	statusBarAheadBehind: (ahead: number, behind: number) => string;
+	statusBarNoUpstream: string;
+	statusBarLastCommit: (time: string) => string;
+	statusBarLastPush: (time: string) => string;
+	statusBarPushPending: (count: number) => string;
+	statusBarPushQueued: (count: number) => string;
+	statusBarNextRetry: (time: string) => string;
+	statusBarRetryOnline: string;
+	statusBarNever: string;
+	statusBarAutoCommit: (state: string) => string;
+	statusBarAutoOn: string;
+	statusBarAutoOff: string;
+	statusBarAutoBlocked: string;
+	statusBarInterrupted: Record<InterruptedState, string>;
+	statusBarAutoInterrupted: string;
+	statusBarRemoteChanges: string;
+
+	showChangeGutterName: string;
+	showChangeGutterDesc: string;
+	gutterRevertHunk: string;
+	gutterAddedLines: string;
+
 	badgeRefreshIntervalName: string;
 	badgeRefreshIntervalDesc: string;
 
@@ -49,12 +161,23 @@ type Translations = {
 	showRibbonButtonDesc: string;
 	ribbonMenuPull: string;
 	ribbonMenuCommit: string;
+	ribbonMenuCommitSelected: string;
 	ribbonMenuPush: string;
 	ribbonMenuCommitAndPush: string;
 	ribbonMenuRevertAll: string;
+	ribbonMenuResolveConflicts: string;
+	ribbonMenuContinueOperation: string;
+	ribbonMenuAbortOperation: string;
 	noticeReverted: string;
 	noticeRevertFailed: (msg: string) => string;
 
+	// Commit dialog
+	commitDialogTitle: string;
+	commitDialogSelectAll: string;
+	commitDialogSelected: (selected: number, total: number) => string;
+	commitDialogButton: string;
+	noticeCommitInProgress: string;
+
 	// Revert confirmation
 	revertConfirmTitle: string;
 	revertConfirmDesc: string;
@@ -65,6 +188,80 @@ type Translations = {
 	noticeFileReverted: string;
 	noticeFileRevertFailed: (msg: string) => string;
 
+	// Note history
+	historyViewTitle: string;
+	historyFileMenu: string;
+	historyRefresh: string;
+	signatureLabels: Record<SignatureStatus, string>;
+	historyLoading: string;
+	historyNoFile: string;
+	historyEmpty: string;
+	historyPreview: string;
+	historyRestore: string;
+	historyRestoreCopy: string;
+	historyRestoreConfirmTitle: string;
+	historyRestoreConfirmDesc: (hash: string) => string;
+	noticeRevisionRestored: (hash: string) => string;
+	noticeRevisionCopied: (path: string) => string;
+	noticeRestoreFailed: (msg: string) => string;
+	noticeHistoryLoadFailed: (msg: string) => string;
+
+	// Diff view
+	diffFileMenu: string;
+	diffShowLink: string;
+	diffBaseHead: string;
+	diffUnified: string;
+	diffSplit: string;
+	diffNoChanges: string;
+	diffBinary: string;
+
+	// Branches
+	ribbonMenuSwitchBranch: string;
+	branchSwitchPlaceholder: string;
+	branchPickPlaceholder: string;
+	branchRemoteTag: string;
+	branchCurrentTag: string;
+	branchNoOthers: string;
+	branchCreateTitle: string;
+	branchRenameTitle: (name: string) => string;
+	branchNamePlaceholder: string;
+	branchDeleteTitle: string;
+	branchDeleteDesc: (name: string) => string;
+	branchDeleteButton: string;
+	branchForceDeleteDesc: (name: string) => string;
+	branchUncommittedTitle: string;
+	branchUncommittedDesc: (count: number) => string;
+	branchCommitAndSwitch: string;
+	branchStashAndSwitch: string;
+	noticeBranchSwitched: (name: string) => string;
+	noticeBranchCreated: (name: string) => string;
+	noticeBranchRenamed: (name: string) => string;
+	noticeBranchDeleted: (name: string) => string;
+	noticeBranchStashed: (message: string) => string;
+	branchStashPopTitle: string;
+	branchStashPopDesc: (name: string) => string;
+	branchStashPopButton: string;
+	noticeStashPopped: string;
+	noticeStashPopFailed: (msg: string) => string;
+	noticeBranchFailed: (msg: string) => string;
+	noticeCannotSwitchConflict: string;
+
+	largeFilesTitle: string;
+	largeFilesDesc: (policy: LargeFilePolicy, limitMB: number) => string;
+	largeFilesLfsMissing: string;
+	largeFilesCommitButton: (policy: LargeFilePolicy) => string;
+	largeFilesCloseButton: string;
+	noticeLargeFiles: (policy: LargeFilePolicy, files: string) => string;
+
+	secretsTitle: string;
+	secretsDesc: (policy: Exclude<SecretScanPolicy, "off">) => string;
+	secretsAllAllowed: string;
+	secretsOpenLink: string;
+	secretsAllowLink: string;
+	secretsCommitButton: string;
+	secretsCommitAllButton: string;
+	noticeSecretsFound: (policy: Exclude<SecretScanPolicy, "off">, findings: string) => string;
+
 	// Setup wizard
 	sectionSetup: string;
 	setupNotRepo: string;
@@ -72,6 +269,10 @@ type Translations = {
 	setupLocalOnly: string;
 	setupNoUpstream: string;
 	setupReady: string;
+	setupInterrupted: Record<InterruptedState, string>;
+	continueOperationButton: string;
+	abortOperationButton: string;
+	setupSwitchBranchButton: string;
 
 	wizardConnectRemote: string;
 	wizardConnectRemoteDesc: string;
@@ -95,6 +296,9 @@ type Translations = {
 
 	// Repository
 	repoStatusName: string;
+	setupIdentityName: string;
+	setupIdentityDesc: string;
+	setupIdentityButton: string;
 	repoNotInitialized: string;
 	repoInitialized: string;
 	initRepoButton: string;
@@ -116,27 +320,72 @@ type Translations = {
 	conflictStatusName: string;
 	conflictStatusDesc: string;
 	resolveConflictButton: string;
+	openConflictsButton: string;
+	conflictModalTitle: string;
+	conflictModalDesc: string;
+	conflictAllResolved: string;
+	conflictKeepLocal: string;
+	conflictKeepRemote: string;
+	conflictOpenLink: string;
+	conflictCompareLink: string;
+	conflictMarkResolvedLink: string;
+	conflictContinueButton: string;
+	conflictDiffLocalRemote: string;
+	conflictDiffBaseLocal: string;
+	conflictDiffBaseRemote: string;
+	noticeNoConflicts: string;
+	noticeInterrupted: Record<InterruptedState, string>;
+	noticeOperationContinued: string;
+	noticeOperationAborted: string;
+	conflictAcceptCurrent: string;
+	conflictAcceptIncoming: string;
+	conflictAcceptBoth: string;
 
 	// Notices - progress
 	noticePulling: string;
 	noticePushing: string;
 	noticeCommitting: string;
+	noticeCancelled: string;
+	cancelButton: string;
 
 	// Notices
 	noticeNoChanges: string;
 	noticeCommitted: (count: number) => string;
 	noticePushed: string;
-	noticePulled: string;
+	noticePulled: Record<PullOutcome, string>;
 	noticeAutoGitError: (msg: string) => string;
 	noticePushFailed: (msg: string) => string;
+	noticePushQueued: (msg: string) => string;
+	noticePendingPushed: string;
+	noticeClosePushFailed: string;
 	noticePullFailed: (msg: string) => string;
 	noticeMobileNotSupported: string;
 	noticeDesktopOnly: string;
 	noticeRepoInitialized: string;
 	noticeRemoteSaved: string;
 	noticeConflictDetected: string;
+	noticeRebaseConflictDetected: string;
+	noticeStashConflict: string;
+	noticeStashRetained: string;
+	noticeRemoteChanges: (count: number) => string;
 	noticeConflictResolved: string;
 	noticeCannotCommitConflict: string;
+	noticeStaleLock: Record<StaleLockResult, string>;
+
+	// Change summary ({{summary}} in commit messages)
+	summaryFiles: (count: number, kind: SummaryFileKind) => string;
+	summaryInFolder: (files: string, folder: string) => string;
+	summaryAcrossFolders: (files: string, folders: number) => string;
+	summaryMostly: (files: string, name: string) => string;
+	summaryVerbs: Record<SummaryVerb, (files: string) => string>;
+	summaryMove: (name: string, folder: string) => string;
+	summaryRename: (from: string, to: string) => string;
+	summarySettings: string;
+	summaryAnd: string;
+	summarySeparator: string;
+
+	// Git errors (actionable messages per classified failure)
+	gitErrors: Record<Exclude<GitErrorKind, "unknown">, string>;
 };
 
 const en: Translations = {
@@ -148,9 +397,20 @@ const en: Translations = {
 	autoCommitName: "Enable auto commit",
 	autoCommitDesc: "Automatically commit when files change (debounced).",
 
+	commitModeName: "Commit timing",
+	commitModeDesc: "Commit once edits pause, or on a fixed schedule while there are changes.",
+	commitModeDebounce: "After changes settle",
+	commitModeInterval: "Fixed interval",
+
 	debounceName: "Debounce delay (seconds)",
 	debounceDesc: "Wait time after last change before committing.",
 
+	maxWaitName: "Maximum wait (seconds)",
+	maxWaitDesc: "Commit at the latest this long after the first uncommitted change, even while edits keep coming. Set to 0 for no limit.",
+
+	commitIntervalName: "Commit interval (minutes)",
+	commitIntervalDesc: "Commit every N minutes when there are changes.",
+
 	autoPushName: "Auto push after auto commit",
 	autoPushDesc: "Push to remote after successful auto commit.",
 
@@ -160,28 +420,146 @@ const en: Translations = {
 	autoPullOnOpenName: "Auto pull on open",
 	autoPullOnOpenDesc: "Pull from remote when Obsidian opens.",
 
+	pullStrategyName: "Pull strategy",
+	pullStrategyDesc: "How to integrate remote changes. Rebase keeps a linear history across devices.",
+	pullStrategyMerge: "Merge",
+	pullStrategyRebase: "Rebase",
+	pullStrategyFfOnly: "Fast-forward only",
+
+	autoStashName: "Auto stash before pull",
+	autoStashDesc: "Temporarily stash uncommitted changes (including new notes) while pulling, then re-apply them.",
+
+	fetchIntervalName: "Background fetch interval (minutes)",
+	fetchIntervalDesc: "Periodically fetch from the remote and report new commits. Set to 0 to disable.",
+	autoPullAfterFetchName: "Auto pull after fetch",
+	autoPullAfterFetchDesc: "Pull automatically when the fetch finds new commits and there are no uncommitted changes.",
+
 	commitOnCloseName: "Commit and push on close",
 	commitOnCloseDesc: "Commit all changes and push when Obsidian closes. Note: This may cause a brief delay when closing.",
 
 	templateName: "Commit message template",
-	templateDesc: "Variables: {{date}}, {{time}}, {{files}}, {{count}}",
+	templateDesc: "Variables: {{date}}, {{time}}, {{files}}, {{count}}, {{added}}, {{modified}}, {{deleted}}, {{renamed}}, {{folders}}, {{branch}}, {{hostname}}, {{platform}}, {{summary}} (a description of the changes, e.g. 'Edit 3 notes in Projects/, add 2 attachments'). Format dates with {{date:YYYY-MM-DD HH:mm}}, set a fallback with {{branch|detached}}, and show text only when a value is non-empty and not 0 with {{#if deleted}}...{{else}}...{{/if}}.",
+	templatePreviewLabel: "Preview (example changes)",
 
 	gitPathName: "Git binary path",
 	gitPathDesc: "Path to git executable. Default: git",
 	gitPathPlaceholder: "Path to git executable",
 
-	ignoreObsidianName: "Ignore config directory",
-	ignoreObsidianDesc: "Exclude Obsidian config folder from triggering auto-commits.",
+	networkTimeoutName: "Network timeout (seconds)",
+	networkTimeoutDesc: "Stop push, pull and fetch that take longer than this in total, e.g. when a credential helper waits for input. Set to 0 to wait indefinitely.",
+	stallTimeoutName: "Stalled transfer timeout (seconds)",
+	stallTimeoutDesc: "Give up sooner when an HTTPS transfer stays under 1 KB/s for this long. Slow transfers that keep moving are not affected. Set to 0 to turn off.",
+
+	configSyncName: "Config folder sync",
+	configSyncDesc: (configDir) => `Choose which parts of ${configDir} are committed. Unchecked parts are written to .gitignore and never trigger auto commits.`,
+	configCategoryNames: {
+		plugins: "Community plugins and their settings",
+		themes: "Themes",
+		snippets: "CSS snippets",
+		hotkeys: "Hotkeys",
+		appearance: "Appearance",
+		core: "Core settings (app.json, core plugins and other files)",
+		workspace: "Workspace layout (changes with every pane switch)",
+		caches: "Caches",
+	},
+
+	excludePatternsName: "Exclude patterns",
+	excludePatternsDesc: "Gitignore-style patterns, one per line (e.g. Scratch/**, *.excalidraw.md). Matching files never trigger or join auto commits and get no status badge. Lines starting with ! re-include, # starts a comment.",
+	syncGitignoreName: "Add exclude patterns to .gitignore",
+	syncGitignoreDesc: "Let git itself ignore these paths too. Files that are already committed stay tracked until removed from the index.",
+	syncGitignoreButton: "Add to .gitignore",
+	noticeGitignoreSynced: (count) => count > 0 ? `GitAutoCommit: Added ${count} pattern(s) to .gitignore` : "GitAutoCommit: .gitignore already contains all patterns",
+
+	largeFileLimitName: "Large file limit (MB)",
+	largeFileLimitDesc: "Changed files bigger than this are handled by the large file policy before committing. Set to 0 to disable.",
+	largeFilePolicyName: "Large file policy",
+	largeFilePolicyDesc: "What to do with files over the limit. Git LFS tracking needs git-lfs installed; without it the files are left out.",
+	largeFilePolicyNames: {
+		skip: "Warn and leave them out",
+		block: "Block the commit",
+		lfs: "Track with Git LFS",
+	},
+
+	secretScanName: "Secret scanning",
+	secretScanDesc: "Check the lines a commit adds for API keys, tokens, private keys and passwords. Block stops the whole commit; quarantine leaves the affected files out.",
+	secretScanPolicyNames: {
+		block: "Block the commit",
+		quarantine: "Leave affected files out",
+		off: "Off",
+	},
+	secretPatternsName: "Custom secret patterns",
+	secretPatternsDesc: "Extra regular expressions to treat as secrets, one per line. # starts a comment.",
+	secretPatternsInvalid: (patterns) => `Invalid regular expressions are ignored: ${patterns}`,
+	secretAllowlistName: "Secret allowlist",
+	secretAllowlistDesc: "Values that look like secrets but are not (e.g. example keys), one per line. \"Allow\" in the secrets dialog adds values here.",
 
 	debugLogName: "Debug logging",
 	debugLogDesc: "Log git commands to console (Ctrl+Shift+I to view).",
 
 	includeFileListName: "Include file list in commit body",
 	includeFileListDesc: "List changed files in commit message body, one per line.",
+	fileListLimitName: "File list limit",
+	fileListLimitDesc: "How many files {{files}} and the file list in the body show before summarizing the rest.",
+
+	commitAuthorName: "Commit author",
+	commitAuthorDesc: "Name and email for commits in this vault. Leave empty to use git's user.name and user.email.",
+	deviceAuthorName: "Device author",
+	deviceAuthorDesc: "Overrides the commit author on this device only (not synced), so commits from each device are easy to tell apart.",
+	authorNamePlaceholder: "Name",
+	authorEmailPlaceholder: "Email",
+	signingFormatName: "Commit signing",
+	signingFormatDesc: "Sign the plugin's commits. Signing must work without a prompt: use gpg-agent or ssh-agent with the key unlocked. Off keeps your git config.",
+	signingFormatOff: "Off",
+	signingFormatGpg: "GPG key",
+	signingFormatSsh: "SSH key",
+	signingKeyGpgName: "GPG key ID",
+	signingKeyGpgDesc: "Key ID or fingerprint. Leave empty to use the default key for the commit email.",
+	signingKeySshName: "SSH key path",
+	signingKeySshDesc: "Path to the SSH key used for signing (the public key when the private key is in ssh-agent). History shows verified badges for SSH signatures only when git has gpg.ssh.allowedSignersFile set.",
+	signingTestName: "Test signing",
+	signingTestDesc: "Sign a throwaway commit to check that signing works without a passphrase prompt.",
+	signingTestButton: "Test",
+	noticeSigningWorks: "GitAutoCommit: Signing works.",
+	noticeSigningFailed: (msg) => `GitAutoCommit: Signing does not work: ${msg}`,
 
 	showStatusBadgeName: "Show git status in file explorer",
 	showStatusBadgeDesc: "Display colored dots next to changed files and folders.",
 
+	showStatusBarName: "Show sync status in status bar",
+	showStatusBarDesc: "Display branch, uncommitted files, commits ahead/behind and last commit time. Click it for git actions.",
+	statusBarUnavailable: "git unavailable",
+	statusBarDetached: "detached HEAD",
+	statusBarChanged: (count) => `${count} changed`,
+	statusBarBlocked: "conflicts",
+	statusBarBranch: (name) => `Branch: ${name}`,
+	statusBarUncommitted: (count) => `Uncommitted files: ${count}`,
+	statusBarAheadBehind: (ahead, behind) => `Ahead ${ahead}, behind ${behind} (upstream)`,
+	statusBarNoUpstream: "No upstream branch",
+	statusBarLastCommit: (time) => `Last commit: ${time}`,
+	statusBarLastPush: (time) => `Last push: ${time}`,
+	statusBarPushPending: (count) => `${count} to push`,
+	statusBarPushQueued: (count) => `Waiting to push: ${count} commit(s)`,
+	statusBarNextRetry: (time) => `Next push retry: ${time}`,
+	statusBarRetryOnline: "Push retries when the connection is back",
+	statusBarNever: "never",
+	statusBarAutoCommit: (state) => `Auto commit: ${state}`,
+	statusBarAutoOn: "active",
+	statusBarAutoOff: "off",
+	statusBarAutoBlocked: "paused until conflicts are resolved",
+	statusBarInterrupted: {
+		"merging": "merging",
+		"rebasing": "rebasing",
+		"cherry-picking": "cherry-picking",
+		"detached": "detached",
+	},
+	statusBarAutoInterrupted: "paused until the repository is back on a branch with nothing in progress",
+	statusBarRemoteChanges: "Remote changes available",
+
+	showChangeGutterName: "Show line changes in editor",
+	showChangeGutterDesc: "Mark added, modified and deleted lines in the editor gutter compared to the last commit.",
+	gutterRevertHunk: "Revert change",
+	gutterAddedLines: "New lines (not in last commit)",
+
 	badgeRefreshIntervalName: "Badge refresh interval (seconds)",
 	badgeRefreshIntervalDesc: "Detect external git changes (e.g. terminal commands). Set to 0 if you only use Obsidian.",
 
@@ -189,12 +567,22 @@ const en: Translations = {
 	showRibbonButtonDesc: "Add a ribbon icon for quick Git actions.",
 	ribbonMenuPull: "Pull",
 	ribbonMenuCommit: "Commit",
+	ribbonMenuCommitSelected: "Commit selected files...",
 	ribbonMenuPush: "Push",
 	ribbonMenuCommitAndPush: "Commit and push",
 	ribbonMenuRevertAll: "Revert all changes",
+	ribbonMenuResolveConflicts: "Resolve conflicts",
+	ribbonMenuContinueOperation: "Continue merge / rebase",
+	ribbonMenuAbortOperation: "Abort merge / rebase",
 	noticeReverted: "GitAutoCommit: All changes reverted.",
 	noticeRevertFailed: (msg) => `GitAutoCommit: Revert failed - ${msg}`,
 
+	commitDialogTitle: "Commit Changes",
+	commitDialogSelectAll: "Select all",
+	commitDialogSelected: (selected, total) => `${selected} of ${total} selected`,
+	commitDialogButton: "Commit",
+	noticeCommitInProgress: "GitAutoCommit: Another commit is in progress.",
+
 	revertConfirmTitle: "Revert All Changes",
 	revertConfirmDesc: "The following files will be reverted:",
 	revertConfirmButton: "Revert",
@@ -204,12 +592,110 @@ const en: Translations = {
 	noticeFileReverted: "GitAutoCommit: File reverted.",
 	noticeFileRevertFailed: (msg) => `GitAutoCommit: Revert file failed - ${msg}`,
 
+	historyViewTitle: "Note history",
+	historyFileMenu: "Show git history",
+	historyRefresh: "Refresh",
+	signatureLabels: {
+		good: "Verified signature",
+		untrusted: "Valid signature from an untrusted key",
+		bad: "Bad signature",
+		unverifiable: "Signed, but the signature cannot be verified",
+		none: "Not signed",
+	},
+	historyLoading: "Loading history...",
+	historyNoFile: "Open a note to see its history.",
+	historyEmpty: "No commits for this file yet.",
+	historyPreview: "Preview",
+	historyRestore: "Restore",
+	historyRestoreCopy: "Restore as copy",
+	historyRestoreConfirmTitle: "Restore Revision",
+	historyRestoreConfirmDesc: (hash) => `Replace the current content of this note with the version from ${hash}? Uncommitted changes will be lost.`,
+	noticeRevisionRestored: (hash) => `GitAutoCommit: Restored version ${hash}.`,
+	noticeRevisionCopied: (path) => `GitAutoCommit: Restored as ${path}.`,
+	noticeRestoreFailed: (msg) => `GitAutoCommit: Restore failed - ${msg}`,
+	noticeHistoryLoadFailed: (msg) => `GitAutoCommit: Could not load revision - ${msg}`,
+
+	diffFileMenu: "Show changes",
+	diffShowLink: "diff",
+	diffBaseHead: "HEAD (last commit)",
+	diffUnified: "Unified",
+	diffSplit: "Side by side",
+	diffNoChanges: "No differences.",
+	diffBinary: "Binary file, cannot show differences.",
+
+	ribbonMenuSwitchBranch: "Switch branch...",
+	branchSwitchPlaceholder: "Switch to branch...",
+	branchPickPlaceholder: "Select a branch...",
+	branchRemoteTag: "remote",
+	branchCurrentTag: "current",
+	branchNoOthers: "There are no other branches.",
+	branchCreateTitle: "Create branch",
+	branchRenameTitle: (name) => `Rename branch "${name}"`,
+	branchNamePlaceholder: "Branch name",
+	branchDeleteTitle: "Delete branch",
+	branchDeleteDesc: (name) => `Delete the local branch "${name}"?`,
+	branchDeleteButton: "Delete",
+	branchForceDeleteDesc: (name) => `"${name}" has commits that are not merged into the current branch. Delete it anyway? Those commits will be lost.`,
+	branchUncommittedTitle: "Uncommitted changes",
+	branchUncommittedDesc: (count) => `${count} file(s) have uncommitted changes. Commit or stash them before switching branches.`,
+	branchCommitAndSwitch: "Commit and switch",
+	branchStashAndSwitch: "Stash and switch",
+	noticeBranchSwitched: (name) => `GitAutoCommit: Switched to ${name}`,
+	noticeBranchCreated: (name) => `GitAutoCommit: Created and switched to ${name}`,
+	noticeBranchRenamed: (name) => `GitAutoCommit: Renamed branch to ${name}`,
+	noticeBranchDeleted: (name) => `GitAutoCommit: Deleted branch ${name}`,
+	noticeBranchStashed: (message) => `GitAutoCommit: Uncommitted changes are kept in git stash as "${message}".`,
+	branchStashPopTitle: "Re-apply stashed changes?",
+	branchStashPopDesc: (name) => `Your uncommitted changes were stashed before switching. Apply them on ${name} now? Otherwise they stay in git stash.`,
+	branchStashPopButton: "Re-apply",
+	noticeStashPopped: "GitAutoCommit: Stashed changes re-applied.",
+	noticeStashPopFailed: (msg) => `GitAutoCommit: Could not re-apply stashed changes, they are still in git stash: ${msg}`,
+	noticeBranchFailed: (msg) => `GitAutoCommit: Branch operation failed: ${msg}`,
+	noticeCannotSwitchConflict: "GitAutoCommit: Cannot switch branches while conflicts exist.",
+
+	largeFilesTitle: "Large files",
+	largeFilesDesc: (policy, limitMB) => ({
+		skip: `These files are larger than ${limitMB} MB and will be left out of the commit:`,
+		block: `These files are larger than ${limitMB} MB, so nothing is committed. Remove them, add them to the exclude patterns or raise the limit:`,
+		lfs: `These files are larger than ${limitMB} MB. Their file types will be tracked with Git LFS and committed as LFS pointers:`,
+	})[policy],
+	largeFilesLfsMissing: "git-lfs was not found, so the files will be left out instead.",
+	largeFilesCommitButton: (policy) => policy === "lfs" ? "Track with LFS and commit" : "Commit without them",
+	largeFilesCloseButton: "OK",
+	noticeLargeFiles: (policy, files) => ({
+		skip: `GitAutoCommit: Left large files out of the commit: ${files}`,
+		block: `GitAutoCommit: Auto commit blocked by large files: ${files}`,
+		lfs: `GitAutoCommit: Tracking large files with Git LFS: ${files}`,
+	})[policy],
+
+	secretsTitle: "Possible secrets",
+	secretsDesc: (policy) => policy === "block"
+		? "These lines look like they contain secrets, so nothing is committed. Remove them, or allow values that are not secret:"
+		: "These lines look like they contain secrets. The files will be left out of the commit:",
+	secretsAllAllowed: "All findings are allowed now.",
+	secretsOpenLink: "Open",
+	secretsAllowLink: "Allow",
+	secretsCommitButton: "Commit without them",
+	secretsCommitAllButton: "Commit",
+	noticeSecretsFound: (policy, findings) => policy === "block"
+		? `GitAutoCommit: Auto commit blocked, possible secrets in ${findings}`
+		: `GitAutoCommit: Left files with possible secrets out of the commit: ${findings}`,
+
 	sectionSetup: "Setup",
 	setupNotRepo: "Not a Git repository",
 	setupEmptyRepo: "Empty repository (no commits)",
 	setupLocalOnly: "Local only (no remote)",
 	setupNoUpstream: "Remote configured (no upstream)",
 	setupReady: "Ready",
+	setupInterrupted: {
+		"merging": "A merge is in progress. Continue to create the merge commit, or abort to go back to before the merge.",
+		"rebasing": "A rebase is in progress. Continue with the remaining commits, or abort to go back to before the rebase.",
+		"cherry-picking": "A cherry-pick is in progress. Continue to commit it, or abort to go back to before it.",
+		"detached": "HEAD is detached (not on any branch). Switch to a branch to resume auto-commit.",
+	},
+	continueOperationButton: "Continue",
+	abortOperationButton: "Abort",
+	setupSwitchBranchButton: "Switch branch",
 
 	wizardConnectRemote: "Connect to remote repository",
 	wizardConnectRemoteDesc: "Sync with an existing remote repository.",
@@ -232,6 +718,9 @@ const en: Translations = {
 	noticeUpstreamFailed: (msg) => `GitAutoCommit: Set upstream failed - ${msg}`,
 
 	repoStatusName: "Repository status",
+	setupIdentityName: "Commit author missing",
+	setupIdentityDesc: "Git has no user.name or user.email, so commits would fail. Enter the author to use for this vault.",
+	setupIdentityButton: "Save",
 	repoNotInitialized: "Not a git repository",
 	repoInitialized: "Git repository initialized",
 	initRepoButton: "Initialize repository",
@@ -252,25 +741,110 @@ const en: Translations = {
 	conflictStatusName: "Merge conflicts detected",
 	conflictStatusDesc: "Please resolve conflicts manually, then click the button below.",
 	resolveConflictButton: "Mark as resolved",
+	openConflictsButton: "Resolve...",
+	conflictModalTitle: "Resolve conflicts",
+	conflictModalDesc: "These files were changed both here and on the remote. Keep one version, or open the file, edit out the conflict markers and mark it resolved.",
+	conflictAllResolved: "All files are resolved. Continue to finish the pull.",
+	conflictKeepLocal: "Keep local",
+	conflictKeepRemote: "Keep remote",
+	conflictOpenLink: "Open",
+	conflictCompareLink: "Compare",
+	conflictMarkResolvedLink: "Mark resolved",
+	conflictContinueButton: "Continue",
+	conflictDiffLocalRemote: "Local → remote",
+	conflictDiffBaseLocal: "Common ancestor → local",
+	conflictDiffBaseRemote: "Common ancestor → remote",
+	noticeNoConflicts: "GitAutoCommit: No conflicts to resolve.",
+	noticeInterrupted: {
+		"merging": "GitAutoCommit: A merge is in progress, auto-commit is paused. Continue or abort it from the command palette or settings.",
+		"rebasing": "GitAutoCommit: A rebase is in progress, auto-commit is paused. Continue or abort it from the command palette or settings.",
+		"cherry-picking": "GitAutoCommit: A cherry-pick is in progress, auto-commit is paused. Continue or abort it from the command palette or settings.",
+		"detached": "GitAutoCommit: HEAD is detached, auto-commit is paused. Switch to a branch to resume.",
+	},
+	noticeOperationContinued: "GitAutoCommit: Continued.",
+	noticeOperationAborted: "GitAutoCommit: Aborted, the repository is back to where it was.",
+	conflictAcceptCurrent: "Accept current",
+	conflictAcceptIncoming: "Accept incoming",
+	conflictAcceptBoth: "Accept both",
 
 	noticePulling: "GitAutoCommit: Pulling...",
 	noticePushing: "GitAutoCommit: Pushing...",
 	noticeCommitting: "GitAutoCommit: Committing...",
+	noticeCancelled: "GitAutoCommit: Cancelled.",
+	cancelButton: "Cancel",
 
 	noticeNoChanges: "GitAutoCommit: No changes to commit.",
 	noticeCommitted: (count) => `GitAutoCommit: Committed ${count} file(s).`,
 	noticePushed: "GitAutoCommit: Pushed to remote.",
-	noticePulled: "GitAutoCommit: Pulled from remote.",
+	noticePulled: {
+		"up-to-date": "GitAutoCommit: Already up to date.",
+		"fast-forward": "GitAutoCommit: Pulled from remote (fast-forward).",
+		"merged": "GitAutoCommit: Pulled from remote (merged).",
+		"rebased": "GitAutoCommit: Pulled from remote (rebased).",
+	},
 	noticeAutoGitError: (msg) => `GitAutoCommit: Error - ${msg}`,
 	noticePushFailed: (msg) => `GitAutoCommit: Push failed - ${msg}`,
+	noticePushQueued: (msg) => `GitAutoCommit: Push failed - ${msg}. The commits stay queued and are pushed once the remote is reachable.`,
+	noticePendingPushed: "GitAutoCommit: Pushed the queued commits.",
+	noticeClosePushFailed: "GitAutoCommit: The push started when Obsidian last closed did not reach the remote. Retrying.",
 	noticePullFailed: (msg) => `GitAutoCommit: Pull failed - ${msg}`,
 	noticeMobileNotSupported: "GitAutoCommit: Git not available on mobile.",
 	noticeDesktopOnly: "GitAutoCommit: Requires desktop vault.",
 	noticeRepoInitialized: "GitAutoCommit: Repository initialized.",
 	noticeRemoteSaved: "GitAutoCommit: Remote URL saved.",
 	noticeConflictDetected: "GitAutoCommit: Merge conflicts detected! Please resolve manually.",
+	noticeRebaseConflictDetected: "GitAutoCommit: Rebase stopped on conflicts! Resolve them, then mark as resolved to continue.",
+	noticeStashConflict: "GitAutoCommit: Pulled, but your local changes conflict with it. Resolve the conflicts; the stash entry is kept as a backup.",
+	noticeStashRetained: "GitAutoCommit: Your uncommitted changes are saved in the git stash. Run \"git stash pop\" after resolving.",
+	noticeRemoteChanges: (count) => `GitAutoCommit: Remote changes available (${count} new commit(s)). Pull to update.`,
 	noticeConflictResolved: "GitAutoCommit: Conflicts marked as resolved.",
 	noticeCannotCommitConflict: "GitAutoCommit: Cannot commit while conflicts exist.",
+	noticeStaleLock: {
+		"removed": "GitAutoCommit: Stale index.lock removed.",
+		"no-lock": "GitAutoCommit: No index.lock found.",
+		"git-running": "GitAutoCommit: A git process is still running; index.lock was left in place.",
+	},
+
+	summaryFiles: (count, kind) => `${count} ${kind}${count === 1 ? "" : "s"}`,
+	summaryInFolder: (files, folder) => `${files} in ${folder}`,
+	summaryAcrossFolders: (files, folders) => `${files} across ${folders} folders`,
+	summaryMostly: (files, name) => `${files} (mostly ${name})`,
+	summaryVerbs: {
+		"edit": (files) => `edit ${files}`,
+		"update-properties": (files) => `update properties of ${files}`,
+		"add": (files) => `add ${files}`,
+		"rename": (files) => `rename ${files}`,
+		"move": (files) => `move ${files}`,
+		"delete": (files) => `delete ${files}`,
+	},
+	summaryMove: (name, folder) => `move ${name} to ${folder}`,
+	summaryRename: (from, to) => `rename ${from} to ${to}`,
+	summarySettings: "update settings",
+	summaryAnd: " and ",
+	summarySeparator: ", ",
+
+	gitErrors: {
+		"git-not-found": "Git executable not found. Install git or set the git binary path in settings.",
+		"not-a-repo": "The vault is not a git repository. Initialize it in the plugin settings.",
+		"auth-failed": "Authentication failed. Check your credentials, SSH key or credential helper.",
+		"network-unreachable": "Cannot reach the remote. Check your network connection and the remote URL.",
+		"non-fast-forward": "The remote has commits you don't have. Pull first, then push again.",
+		"diverged": "Local and remote branches have diverged and cannot be fast-forwarded.",
+		"index-locked": "Another git process is using the repository (index.lock). Wait and try again, or run \"Remove stale index lock\" if none is running.",
+		"merge-conflict": "Merge conflicts detected. Resolve them, then mark conflicts as resolved.",
+		"detached-head": "HEAD is detached. Check out a branch before committing or pushing.",
+		"missing-identity": "Git author identity is not configured. Set the commit author in the plugin settings, or user.name and user.email in git.",
+		"signing-locked": "The signing key is locked. Unlock it in gpg-agent or ssh-agent (or cache the passphrase), then commit again.",
+		"signing-failed": "Signing the commit failed. Check the signing key in the plugin settings.",
+		"dirty-worktree": "Uncommitted changes block this operation. Commit them first or enable auto stash.",
+		"branch-exists": "A branch with that name already exists.",
+		"branch-not-merged": "The branch has commits that are not merged into the current branch.",
+		"invalid-branch-name": "That is not a valid branch name.",
+		"conflict-markers": "Some files still contain conflict markers (<<<<<<< or >>>>>>>). Edit them or keep one version first.",
+		"nothing-to-commit": "Nothing to commit.",
+		"timeout": "Git did not finish in time, or the transfer stalled. Check your network, or whether a credential helper is waiting for input.",
+		"cancelled": "Cancelled.",
+	},
 };
 
 const zhCN: Translations = {
@@ -282,9 +856,20 @@ const zhCN: Translations = {
 	autoCommitName: "启用自动提交",
 	autoCommitDesc: "文件变动后自动提交（防抖）。",
 
+	commitModeName: "提交时机",
+	commitModeDesc: "在编辑停顿后提交，或在有更改时按固定间隔提交。",
+	commitModeDebounce: "更改停止后",
+	commitModeInterval: "固定间隔",
+
 	debounceName: "防抖延迟（秒）",
 	debounceDesc: "最后一次变动后等待多久再提交。",
 
+	maxWaitName: "最长等待（秒）",
+	maxWaitDesc: "自第一次未提交的更改起最多等待这么久就提交，即使仍在持续编辑。设为 0 表示不限制。",
+
+	commitIntervalName: "提交间隔（分钟）",
+	commitIntervalDesc: "有更改时每隔 N 分钟提交一次。",
+
 	autoPushName: "自动提交后自动推送",
 	autoPushDesc: "自动提交成功后自动推送到远程仓库。",
 
@@ -294,28 +879,146 @@ const zhCN: Translations = {
 	autoPullOnOpenName: "打开时自动拉取",
 	autoPullOnOpenDesc: "打开 Obsidian 时自动从远程仓库拉取。",
 
+	pullStrategyName: "拉取策略",
+	pullStrategyDesc: "如何整合远程更改。变基可在多设备间保持线性历史。",
+	pullStrategyMerge: "合并",
+	pullStrategyRebase: "变基",
+	pullStrategyFfOnly: "仅快进",
+
+	autoStashName: "拉取前自动暂存",
+	autoStashDesc: "拉取时临时储藏未提交的更改（包括新笔记），拉取后重新应用。",
+
+	fetchIntervalName: "后台获取间隔（分钟）",
+	fetchIntervalDesc: "定期从远程仓库获取并提示新的提交。设为 0 表示禁用。",
+	autoPullAfterFetchName: "获取后自动拉取",
+	autoPullAfterFetchDesc: "获取到新的提交且没有未提交的更改时自动拉取。",
+
 	commitOnCloseName: "关闭时提交并推送",
 	commitOnCloseDesc: "关闭 Obsidian 时自动提交所有更改并推送。注意：这可能导致关闭时短暂卡顿。",
 
 	templateName: "提交消息模板",
-	templateDesc: "变量: {{date}}, {{time}}, {{files}}, {{count}}",
+	templateDesc: "变量: {{date}}, {{time}}, {{files}}, {{count}}, {{added}}, {{modified}}, {{deleted}}, {{renamed}}, {{folders}}, {{branch}}, {{hostname}}, {{platform}}, {{summary}}（变更描述，如 '编辑 Projects/ 中的 3 篇笔记，添加 2 个附件'）。用 {{date:YYYY-MM-DD HH:mm}} 指定日期格式，用 {{branch|detached}} 设置默认值，用 {{#if deleted}}...{{else}}...{{/if}} 仅在值非空且不为 0 时显示内容。",
+	templatePreviewLabel: "预览（示例更改）",
 
 	gitPathName: "Git 可执行文件路径",
 	gitPathDesc: "git 的路径，默认: git",
 	gitPathPlaceholder: "git 可执行文件路径",
 
-	ignoreObsidianName: "忽略配置目录",
-	ignoreObsidianDesc: "排除 Obsidian 配置文件夹触发自动提交。",
+	networkTimeoutName: "网络超时（秒）",
+	networkTimeoutDesc: "推送、拉取和获取的总耗时超过该时长时终止，例如凭据助手在等待输入时。设为 0 表示无限等待。",
+	stallTimeoutName: "传输停滞超时（秒）",
+	stallTimeoutDesc: "HTTPS 传输速度持续低于 1 KB/s 达到该时长时提前放弃。仍在传输的慢速操作不受影响。设为 0 表示关闭。",
+
+	configSyncName: "配置目录同步",
+	configSyncDesc: (configDir) => `选择 ${configDir} 中哪些部分需要提交。未勾选的部分会写入 .gitignore，且不会触发自动提交。`,
+	configCategoryNames: {
+		plugins: "第三方插件及其设置",
+		themes: "主题",
+		snippets: "CSS 代码片段",
+		hotkeys: "快捷键",
+		appearance: "外观",
+		core: "核心设置（app.json、核心插件及其他文件）",
+		workspace: "工作区布局（每次切换面板都会变化）",
+		caches: "缓存",
+	},
+
+	excludePatternsName: "排除规则",
+	excludePatternsDesc: "gitignore 风格的规则，每行一条（例如 Scratch/**、*.excalidraw.md）。匹配的文件不会触发或加入自动提交，也不显示状态徽章。以 ! 开头表示重新包含，以 # 开头为注释。",
+	syncGitignoreName: "将排除规则写入 .gitignore",
+	syncGitignoreDesc: "让 git 本身也忽略这些路径。已提交的文件在从索引中移除前仍会被跟踪。",
+	syncGitignoreButton: "写入 .gitignore",
+	noticeGitignoreSynced: (count) => count > 0 ? `GitAutoCommit: 已向 .gitignore 添加 ${count} 条规则` : "GitAutoCommit: .gitignore 已包含所有规则",
+
+	largeFileLimitName: "大文件上限（MB）",
+	largeFileLimitDesc: "提交前，超过此大小的已更改文件会按大文件策略处理。设为 0 表示不限制。",
+	largeFilePolicyName: "大文件策略",
+	largeFilePolicyDesc: "如何处理超过上限的文件。使用 Git LFS 跟踪需要安装 git-lfs，未安装时这些文件会被跳过。",
+	largeFilePolicyNames: {
+		skip: "提示并跳过",
+		block: "阻止提交",
+		lfs: "使用 Git LFS 跟踪",
+	},
+
+	secretScanName: "密钥扫描",
+	secretScanDesc: "检查提交新增的行中是否包含 API 密钥、令牌、私钥和密码。阻止会中止整个提交；隔离会跳过相关文件。",
+	secretScanPolicyNames: {
+		block: "阻止提交",
+		quarantine: "跳过相关文件",
+		off: "关闭",
+	},
+	secretPatternsName: "自定义密钥规则",
+	secretPatternsDesc: "额外视为密钥的正则表达式，每行一条。以 # 开头为注释。",
+	secretPatternsInvalid: (patterns) => `以下无效的正则表达式将被忽略：${patterns}`,
+	secretAllowlistName: "密钥白名单",
+	secretAllowlistDesc: "看起来像密钥但实际不是的值（如示例密钥），每行一条。在密钥对话框中点击“允许”会添加到这里。",
 
 	debugLogName: "调试日志",
 	debugLogDesc: "将 git 命令输出到控制台（Ctrl+Shift+I 查看）。",
 
 	includeFileListName: "在提交正文中包含文件列表",
 	includeFileListDesc: "在提交消息正文中列出变动的文件，每行一个。",
+	fileListLimitName: "文件列表上限",
+	fileListLimitDesc: "{{files}} 和正文文件列表最多显示的文件数，其余文件将汇总显示。",
+
+	commitAuthorName: "提交作者",
+	commitAuthorDesc: "此仓库提交使用的姓名和邮箱。留空则使用 git 的 user.name 和 user.email。",
+	deviceAuthorName: "设备作者",
+	deviceAuthorDesc: "仅在此设备上覆盖提交作者（不会同步），便于区分来自不同设备的提交。",
+	authorNamePlaceholder: "姓名",
+	authorEmailPlaceholder: "邮箱",
+	signingFormatName: "提交签名",
+	signingFormatDesc: "为插件创建的提交签名。签名必须无需输入即可完成：请使用 gpg-agent 或 ssh-agent 并保持密钥已解锁。关闭时沿用 git 配置。",
+	signingFormatOff: "关闭",
+	signingFormatGpg: "GPG 密钥",
+	signingFormatSsh: "SSH 密钥",
+	signingKeyGpgName: "GPG 密钥 ID",
+	signingKeyGpgDesc: "密钥 ID 或指纹。留空则使用与提交邮箱对应的默认密钥。",
+	signingKeySshName: "SSH 密钥路径",
+	signingKeySshDesc: "用于签名的 SSH 密钥路径（私钥在 ssh-agent 中时填写公钥）。只有在 git 配置了 gpg.ssh.allowedSignersFile 时，历史记录才会显示 SSH 签名的验证标记。",
+	signingTestName: "测试签名",
+	signingTestDesc: "签名一个临时提交，检查签名是否无需输入密码即可完成。",
+	signingTestButton: "测试",
+	noticeSigningWorks: "GitAutoCommit: 签名可用。",
+	noticeSigningFailed: (msg) => `GitAutoCommit: 签名不可用：${msg}`,
 
 	showStatusBadgeName: "在文件列表显示 Git 状态",
 	showStatusBadgeDesc: "在变动的文件和文件夹旁显示彩色圆点。",
 
+	showStatusBarName: "在状态栏显示同步状态",
+	showStatusBarDesc: "显示当前分支、未提交文件数、领先/落后提交数和上次提交时间。点击可打开 Git 操作菜单。",
+	statusBarUnavailable: "git 不可用",
+	statusBarDetached: "分离的 HEAD",
+	statusBarChanged: (count) => `${count} 个更改`,
+	statusBarBlocked: "冲突",
+	statusBarBranch: (name) => `分支: ${name}`,
+	statusBarUncommitted: (count) => `未提交文件: ${count}`,
+	statusBarAheadBehind: (ahead, behind) => `领先 ${ahead}，落后 ${behind}（相对上游）`,
+	statusBarNoUpstream: "未设置上游分支",
+	statusBarLastCommit: (time) => `上次提交: ${time}`,
+	statusBarLastPush: (time) => `上次推送: ${time}`,
+	statusBarPushPending: (count) => `${count} 待推送`,
+	statusBarPushQueued: (count) => `等待推送: ${count} 个提交`,
+	statusBarNextRetry: (time) => `下次重试推送: ${time}`,
+	statusBarRetryOnline: "网络恢复后重试推送",
+	statusBarNever: "从未",
+	statusBarAutoCommit: (state) => `自动提交: ${state}`,
+	statusBarAutoOn: "已启用",
+	statusBarAutoOff: "已关闭",
+	statusBarAutoBlocked: "已暂停，等待解决冲突",
+	statusBarInterrupted: {
+		"merging": "合并中",
+		"rebasing": "变基中",
+		"cherry-picking": "拣选中",
+		"detached": "分离 HEAD",
+	},
+	statusBarAutoInterrupted: "已暂停，等待仓库回到分支且没有进行中的操作",
+	statusBarRemoteChanges: "远程有新的更改",
+
+	showChangeGutterName: "在编辑器中显示行级更改",
+	showChangeGutterDesc: "在编辑器行号栏中标记相对上次提交新增、修改和删除的行。",
+	gutterRevertHunk: "还原此更改",
+	gutterAddedLines: "新增的行（不在上次提交中）",
+
 	badgeRefreshIntervalName: "状态刷新间隔（秒）",
 	badgeRefreshIntervalDesc: "用于检测外部 git 操作（如终端命令）。若只在 Obsidian 内操作可设为 0。",
 
@@ -323,12 +1026,22 @@ const zhCN: Translations = {
 	showRibbonButtonDesc: "添加快捷 Git 操作按钮。",
 	ribbonMenuPull: "拉取",
 	ribbonMenuCommit: "提交",
+	ribbonMenuCommitSelected: "提交选定文件...",
 	ribbonMenuPush: "推送",
 	ribbonMenuCommitAndPush: "提交并推送",
 	ribbonMenuRevertAll: "还原所有修改",
+	ribbonMenuResolveConflicts: "解决冲突",
+	ribbonMenuContinueOperation: "继续合并 / 变基",
+	ribbonMenuAbortOperation: "中止合并 / 变基",
 	noticeReverted: "GitAutoCommit: 已还原所有修改。",
 	noticeRevertFailed: (msg) => `GitAutoCommit: 还原失败 - ${msg}`,
 
+	commitDialogTitle: "提交更改",
+	commitDialogSelectAll: "全选",
+	commitDialogSelected: (selected, total) => `已选择 ${selected} / ${total}`,
+	commitDialogButton: "提交",
+	noticeCommitInProgress: "GitAutoCommit: 另一个提交正在进行中。",
+
 	revertConfirmTitle: "还原所有修改",
 	revertConfirmDesc: "以下文件将被还原：",
 	revertConfirmButton: "还原",
@@ -338,12 +1051,110 @@ const zhCN: Translations = {
 	noticeFileReverted: "GitAutoCommit: 文件已还原。",
 	noticeFileRevertFailed: (msg) => `GitAutoCommit: 还原文件失败 - ${msg}`,
 
+	historyViewTitle: "笔记历史",
+	historyFileMenu: "查看 Git 历史",
+	historyRefresh: "刷新",
+	signatureLabels: {
+		good: "签名已验证",
+		untrusted: "签名有效，但密钥不受信任",
+		bad: "签名无效",
+		unverifiable: "已签名，但无法验证签名",
+		none: "未签名",
+	},
+	historyLoading: "正在加载历史...",
+	historyNoFile: "打开一个笔记以查看其历史。",
+	historyEmpty: "该文件还没有提交记录。",
+	historyPreview: "预览",
+	historyRestore: "恢复",
+	historyRestoreCopy: "恢复为副本",
+	historyRestoreConfirmTitle: "恢复版本",
+	historyRestoreConfirmDesc: (hash) => `用 ${hash} 中的版本替换此笔记的当前内容？未提交的更改将丢失。`,
+	noticeRevisionRestored: (hash) => `GitAutoCommit: 已恢复版本 ${hash}。`,
+	noticeRevisionCopied: (path) => `GitAutoCommit: 已恢复为 ${path}。`,
+	noticeRestoreFailed: (msg) => `GitAutoCommit: 恢复失败 - ${msg}`,
+	noticeHistoryLoadFailed: (msg) => `GitAutoCommit: 无法加载该版本 - ${msg}`,
+
+	diffFileMenu: "查看更改",
+	diffShowLink: "差异",
+	diffBaseHead: "HEAD（最近一次提交）",
+	diffUnified: "统一视图",
+	diffSplit: "并排视图",
+	diffNoChanges: "没有差异。",
+	diffBinary: "二进制文件，无法显示差异。",
+
+	ribbonMenuSwitchBranch: "切换分支...",
+	branchSwitchPlaceholder: "切换到分支...",
+	branchPickPlaceholder: "选择分支...",
+	branchRemoteTag: "远程",
+	branchCurrentTag: "当前",
+	branchNoOthers: "没有其他分支。",
+	branchCreateTitle: "新建分支",
+	branchRenameTitle: (name) => `重命名分支「${name}」`,
+	branchNamePlaceholder: "分支名称",
+	branchDeleteTitle: "删除分支",
+	branchDeleteDesc: (name) => `确定删除本地分支「${name}」吗？`,
+	branchDeleteButton: "删除",
+	branchForceDeleteDesc: (name) => `「${name}」包含尚未合并到当前分支的提交。仍要删除吗？这些提交将会丢失。`,
+	branchUncommittedTitle: "存在未提交的更改",
+	branchUncommittedDesc: (count) => `有 ${count} 个文件存在未提交的更改。切换分支前请先提交或暂存。`,
+	branchCommitAndSwitch: "提交并切换",
+	branchStashAndSwitch: "暂存并切换",
+	noticeBranchSwitched: (name) => `GitAutoCommit: 已切换到 ${name}`,
+	noticeBranchCreated: (name) => `GitAutoCommit: 已创建并切换到 ${name}`,
+	noticeBranchRenamed: (name) => `GitAutoCommit: 分支已重命名为 ${name}`,
+	noticeBranchDeleted: (name) => `GitAutoCommit: 已删除分支 ${name}`,
+	noticeBranchStashed: (message) => `GitAutoCommit: 未提交的更改已保存在 git stash 中，名称为「${message}」。`,
+	branchStashPopTitle: "恢复暂存的更改？",
+	branchStashPopDesc: (name) => `切换前已暂存未提交的更改。现在要在 ${name} 上恢复吗？否则它们将保留在 git stash 中。`,
+	branchStashPopButton: "恢复",
+	noticeStashPopped: "GitAutoCommit: 已恢复暂存的更改。",
+	noticeStashPopFailed: (msg) => `GitAutoCommit: 无法恢复暂存的更改，它们仍保留在 git stash 中: ${msg}`,
+	noticeBranchFailed: (msg) => `GitAutoCommit: 分支操作失败: ${msg}`,
+	noticeCannotSwitchConflict: "GitAutoCommit: 存在冲突时无法切换分支。",
+
+	largeFilesTitle: "大文件",
+	largeFilesDesc: (policy, limitMB) => ({
+		skip: `以下文件超过 ${limitMB} MB，将不会包含在本次提交中：`,
+		block: `以下文件超过 ${limitMB} MB，本次不会提交任何内容。请删除这些文件、将其加入排除规则或提高上限：`,
+		lfs: `以下文件超过 ${limitMB} MB。它们的文件类型将由 Git LFS 跟踪，并以 LFS 指针形式提交：`,
+	})[policy],
+	largeFilesLfsMissing: "未找到 git-lfs，这些文件将被跳过。",
+	largeFilesCommitButton: (policy) => policy === "lfs" ? "使用 LFS 跟踪并提交" : "跳过这些文件并提交",
+	largeFilesCloseButton: "确定",
+	noticeLargeFiles: (policy, files) => ({
+		skip: `GitAutoCommit: 已从提交中跳过大文件：${files}`,
+		block: `GitAutoCommit: 大文件阻止了自动提交：${files}`,
+		lfs: `GitAutoCommit: 正在使用 Git LFS 跟踪大文件：${files}`,
+	})[policy],
+
+	secretsTitle: "可能的密钥",
+	secretsDesc: (policy) => policy === "block"
+		? "以下行看起来包含密钥，本次不会提交任何内容。请删除它们，或将不是密钥的值加入白名单："
+		: "以下行看起来包含密钥，相关文件将不会包含在本次提交中：",
+	secretsAllAllowed: "所有发现均已加入白名单。",
+	secretsOpenLink: "打开",
+	secretsAllowLink: "允许",
+	secretsCommitButton: "跳过这些文件并提交",
+	secretsCommitAllButton: "提交",
+	noticeSecretsFound: (policy, findings) => policy === "block"
+		? `GitAutoCommit: 自动提交已阻止，可能包含密钥：${findings}`
+		: `GitAutoCommit: 已从提交中跳过可能包含密钥的文件：${findings}`,
+
 	sectionSetup: "初始设置",
 	setupNotRepo: "尚未初始化为 Git 仓库",
 	setupEmptyRepo: "空仓库（无提交）",
 	setupLocalOnly: "仅本地（无远程）",
 	setupNoUpstream: "已配置远程（无上游分支）",
 	setupReady: "就绪",
+	setupInterrupted: {
+		"merging": "合并进行中。继续以创建合并提交，或中止以回到合并之前。",
+		"rebasing": "变基进行中。继续处理剩余提交，或中止以回到变基之前。",
+		"cherry-picking": "拣选进行中。继续以提交，或中止以回到拣选之前。",
+		"detached": "HEAD 处于分离状态（不在任何分支上）。切换到分支以恢复自动提交。",
+	},
+	continueOperationButton: "继续",
+	abortOperationButton: "中止",
+	setupSwitchBranchButton: "切换分支",
 
 	wizardConnectRemote: "连接远程仓库",
 	wizardConnectRemoteDesc: "同步到已有的远程仓库。",
@@ -366,6 +1177,9 @@ const zhCN: Translations = {
 	noticeUpstreamFailed: (msg) => `GitAutoCommit: 设置上游失败 - ${msg}`,
 
 	repoStatusName: "仓库状态",
+	setupIdentityName: "缺少提交作者",
+	setupIdentityDesc: "Git 未配置 user.name 或 user.email，提交将会失败。请填写此仓库使用的作者。",
+	setupIdentityButton: "保存",
 	repoNotInitialized: "尚未初始化为 Git 仓库",
 	repoInitialized: "Git 仓库已初始化",
 	initRepoButton: "初始化仓库",
@@ -386,25 +1200,110 @@ const zhCN: Translations = {
 	conflictStatusName: "检测到合并冲突",
 	conflictStatusDesc: "请手动解决冲突后，点击下方按钮。",
 	resolveConflictButton: "标记为已解决",
+	openConflictsButton: "解决...",
+	conflictModalTitle: "解决冲突",
+	conflictModalDesc: "这些文件在本地和远程都有修改。保留其中一个版本，或打开文件删除冲突标记后标记为已解决。",
+	conflictAllResolved: "所有文件均已解决。点击继续以完成拉取。",
+	conflictKeepLocal: "保留本地",
+	conflictKeepRemote: "保留远程",
+	conflictOpenLink: "打开",
+	conflictCompareLink: "对比",
+	conflictMarkResolvedLink: "标记为已解决",
+	conflictContinueButton: "继续",
+	conflictDiffLocalRemote: "本地 → 远程",
+	conflictDiffBaseLocal: "共同祖先 → 本地",
+	conflictDiffBaseRemote: "共同祖先 → 远程",
+	noticeNoConflicts: "GitAutoCommit: 没有需要解决的冲突。",
+	noticeInterrupted: {
+		"merging": "GitAutoCommit: 合并进行中，自动提交已暂停。请在命令面板或设置中继续或中止。",
+		"rebasing": "GitAutoCommit: 变基进行中，自动提交已暂停。请在命令面板或设置中继续或中止。",
+		"cherry-picking": "GitAutoCommit: 拣选进行中，自动提交已暂停。请在命令面板或设置中继续或中止。",
+		"detached": "GitAutoCommit: HEAD 处于分离状态，自动提交已暂停。切换到分支以恢复。",
+	},
+	noticeOperationContinued: "GitAutoCommit: 已继续。",
+	noticeOperationAborted: "GitAutoCommit: 已中止，仓库已恢复原状。",
+	conflictAcceptCurrent: "采用当前",
+	conflictAcceptIncoming: "采用传入",
+	conflictAcceptBoth: "保留两者",
 
 	noticePulling: "GitAutoCommit: 正在拉取...",
 	noticePushing: "GitAutoCommit: 正在推送...",
 	noticeCommitting: "GitAutoCommit: 正在提交...",
+	noticeCancelled: "GitAutoCommit: 已取消。",
+	cancelButton: "取消",
 
 	noticeNoChanges: "GitAutoCommit: 没有可提交的更改。",
 	noticeCommitted: (count) => `GitAutoCommit: 已提交 ${count} 个文件。`,
 	noticePushed: "GitAutoCommit: 已推送到远程仓库。",
-	noticePulled: "GitAutoCommit: 已从远程仓库拉取。",
+	noticePulled: {
+		"up-to-date": "GitAutoCommit: 已是最新。",
+		"fast-forward": "GitAutoCommit: 已从远程仓库拉取（快进）。",
+		"merged": "GitAutoCommit: 已从远程仓库拉取（合并）。",
+		"rebased": "GitAutoCommit: 已从远程仓库拉取（变基）。",
+	},
 	noticeAutoGitError: (msg) => `GitAutoCommit: 错误 - ${msg}`,
 	noticePushFailed: (msg) => `GitAutoCommit: 推送失败 - ${msg}`,
+	noticePushQueued: (msg) => `GitAutoCommit: 推送失败 - ${msg}。提交已加入队列，远程仓库可访问时会自动推送。`,
+	noticePendingPushed: "GitAutoCommit: 已推送队列中的提交。",
+	noticeClosePushFailed: "GitAutoCommit: 上次关闭 Obsidian 时的推送未能到达远程仓库，正在重试。",
 	noticePullFailed: (msg) => `GitAutoCommit: 拉取失败 - ${msg}`,
 	noticeMobileNotSupported: "GitAutoCommit: 移动端不支持 Git。",
 	noticeDesktopOnly: "GitAutoCommit: 需要桌面端。",
 	noticeRepoInitialized: "GitAutoCommit: 仓库已初始化。",
 	noticeRemoteSaved: "GitAutoCommit: 远程地址已保存。",
 	noticeConflictDetected: "GitAutoCommit: 检测到合并冲突！请手动解决。",
+	noticeRebaseConflictDetected: "GitAutoCommit: 变基因冲突而暂停！请解决后标记为已解决以继续。",
+	noticeStashConflict: "GitAutoCommit: 已拉取，但本地更改与之冲突。请解决冲突；储藏条目已保留作为备份。",
+	noticeStashRetained: "GitAutoCommit: 未提交的更改已保存在 git 储藏中。解决冲突后请运行 \"git stash pop\"。",
+	noticeRemoteChanges: (count) => `GitAutoCommit: 远程有新的更改（${count} 个新提交）。请拉取以更新。`,
 	noticeConflictResolved: "GitAutoCommit: 冲突已标记为解决。",
 	noticeCannotCommitConflict: "GitAutoCommit: 存在冲突时无法提交。",
+	noticeStaleLock: {
+		"removed": "GitAutoCommit: 已删除残留的 index.lock。",
+		"no-lock": "GitAutoCommit: 未发现 index.lock。",
+		"git-running": "GitAutoCommit: 仍有 git 进程在运行，未删除 index.lock。",
+	},
+
+	summaryFiles: (count, kind) => (kind === "note" ? `${count} 篇笔记` : `${count} 个附件`),
+	summaryInFolder: (files, folder) => `${folder} 中的 ${files}`,
+	summaryAcrossFolders: (files, folders) => `${folders} 个文件夹中的 ${files}`,
+	summaryMostly: (files, name) => `${files}（主要是 ${name}）`,
+	summaryVerbs: {
+		"edit": (files) => `编辑 ${files}`,
+		"update-properties": (files) => `更新 ${files} 的属性`,
+		"add": (files) => `添加 ${files}`,
+		"rename": (files) => `重命名 ${files}`,
+		"move": (files) => `移动 ${files}`,
+		"delete": (files) => `删除 ${files}`,
+	},
+	summaryMove: (name, folder) => `将 ${name} 移动到 ${folder}`,
+	summaryRename: (from, to) => `将 ${from} 重命名为 ${to}`,
+	summarySettings: "更新设置",
+	summaryAnd: " 和 ",
+	summarySeparator: "，",
+
+	gitErrors: {
+		"git-not-found": "找不到 Git 可执行文件。请安装 git 或在设置中指定 git 路径。",
+		"not-a-repo": "当前库不是 Git 仓库。请在插件设置中初始化。",
+		"auth-failed": "身份验证失败。请检查凭据、SSH 密钥或凭据助手。",
+		"network-unreachable": "无法连接远程仓库。请检查网络连接和远程地址。",
+		"non-fast-forward": "远程仓库有本地没有的提交。请先拉取，再推送。",
+		"diverged": "本地分支与远程分支已分叉，无法快进。",
+		"index-locked": "另一个 git 进程正在使用仓库（index.lock）。请稍后重试；若没有 git 进程在运行，可执行“Remove stale index lock”命令。",
+		"merge-conflict": "检测到合并冲突。请解决后标记为已解决。",
+		"detached-head": "HEAD 处于分离状态。请先检出一个分支再提交或推送。",
+		"missing-identity": "未配置 Git 作者身份。请在插件设置中填写提交作者，或在 git 中设置 user.name 和 user.email。",
+		"signing-locked": "签名密钥已锁定。请在 gpg-agent 或 ssh-agent 中解锁（或缓存密码）后重新提交。",
+		"signing-failed": "提交签名失败。请检查插件设置中的签名密钥。",
+		"dirty-worktree": "未提交的更改阻止了此操作。请先提交，或启用拉取前自动暂存。",
+		"branch-exists": "同名分支已存在。",
+		"branch-not-merged": "该分支包含尚未合并到当前分支的提交。",
+		"invalid-branch-name": "分支名称无效。",
+		"conflict-markers": "部分文件仍包含冲突标记（<<<<<<< 或 >>>>>>>）。请先编辑或保留其中一个版本。",
+		"nothing-to-commit": "没有可提交的内容。",
+		"timeout": "Git 未在规定时间内完成，或传输已停滞。请检查网络，或凭据助手是否在等待输入。",
+		"cancelled": "已取消。",
+	},
 };
 
 const translations: Record<string, Translations> = {
@@ -423,3 +1322,12 @@ export function t(): Translations {
 	const locale = getObsidianLocale();
 	return translations[locale] || translations["en"];
 }
+
+/** User-facing text for an error, preferring the translated message for classified git failures */
+export function describeError(e: unknown): string {
+	if (e instanceof GitError && e.kind !== "unknown") {
+		const detail = errorDetail(e);
+		return detail ? `${t().gitErrors[e.kind]} (${detail})` : t().gitErrors[e.kind];
+	}
+	return e instanceof Error ? e.message : String(e);
+}
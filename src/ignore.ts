@@ -0,0 +1,102 @@
+export type PathMatcher = (path: string) => boolean;
+
+interface CompiledPattern {
+	regex: RegExp;
+	negated: boolean;
+	/** Trailing "/": only matches directories, i.e. parents of the path */
+	dirOnly: boolean;
+}
+
+/** Patterns from user-entered lines, dropping blank lines and # comments */
+export function parsePatternList(lines: string[]): string[] {
+	return lines
+		.map((line) => line.trim())
+		.filter((line) => line && !line.startsWith("#"));
+}
+
+function escapeRegex(char: string): string {
+	return /[\\^$.*+?()[\]{}|]/.test(char) ? `\\${char}` : char;
+}
+
+// Translate one gitignore-style glob into an anchored regex over vault-relative paths
+function globToRegex(glob: string): string {
+	let out = "";
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === "*") {
+			if (glob[i + 1] === "*") {
+				const atSegmentStart = i === 0 || glob[i - 1] === "/";
+				i++;
+				if (glob[i + 1] === "/" && atSegmentStart) {
+					// "**/" matches zero or more directories
+					i++;
+					out += "(?:.*/)?";
+				} else {
+					out += ".*";
+				}
+			} else {
+				out += "[^/]*";
+			}
+		} else if (char === "?") {
+			out += "[^/]";
+		} else if (char === "[") {
+			const end = glob.indexOf("]", i + 2);
+			if (end === -1) {
+				out += "\\[";
+			} else {
+				let cls = glob.slice(i + 1, end).replace(/\\/g, "\\\\");
+				if (cls.startsWith("!")) cls = `^${cls.slice(1)}`;
+				out += `[${cls}]`;
+				i = end;
+			}
+		} else if (char === "\\" && i + 1 < glob.length) {
+			out += escapeRegex(glob[++i]);
+		} else {
+			out += escapeRegex(char);
+		}
+	}
+	return out;
+}
+
+function compilePattern(pattern: string): CompiledPattern {
+	let glob = pattern;
+	const negated = glob.startsWith("!");
+	if (negated) glob = glob.slice(1);
+
+	const dirOnly = glob.endsWith("/");
+	if (dirOnly) glob = glob.replace(/\/+$/, "");
+
+	// Like .gitignore: a slash anywhere but the end anchors the pattern to the vault root
+	const anchored = glob.includes("/");
+	if (glob.startsWith("/")) glob = glob.slice(1);
+
+	const body = globToRegex(glob);
+	const regex = new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`);
+	return { regex, negated, dirOnly };
+}
+
+/**
+ * Build a matcher for gitignore-style patterns. A path is excluded when the
+ * last pattern matching it or one of its parent folders is not negated.
+ */
+export function compileIgnorePatterns(lines: string[]): PathMatcher {
+	const compiled = parsePatternList(lines).map(compilePattern);
+	if (compiled.length === 0) return () => false;
+
+	return (filePath: string) => {
+		const normalized = filePath.replace(/\\/g, "/").replace(/^\/+/, "");
+		const segments = normalized.split("/");
+		// Parent folders first, then the path itself
+		const candidates = segments.map((_, i) => ({
+			path: segments.slice(0, i + 1).join("/"),
+			isDir: i < segments.length - 1,
+		}));
+
+		let ignored = false;
+		for (const pattern of compiled) {
+			const matches = candidates.some((c) => (c.isDir || !pattern.dirOnly) && pattern.regex.test(c.path));
+			if (matches) ignored = !pattern.negated;
+		}
+		return ignored;
+	};
+}
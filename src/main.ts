@@ -1,25 +1,74 @@
-import { EventRef, Menu, Notice, Platform, Plugin, TAbstractFile, TFile, FileSystemAdapter } from "obsidian";
+import { Extension } from "@codemirror/state";
+import { EventRef, MarkdownView, Menu, Notice, Platform, Plugin, TAbstractFile, TFile, FileSystemAdapter } from "obsidian";
 import { AutoGitSettings, AutoGitSettingTab, DEFAULT_SETTINGS } from "./settings";
-import { getChangedFiles, commitAll, push, pull, getConflictFiles, markConflictsResolved, revertAll, revertFile, getChangedFilesSync, commitSyncAndPushDetached, setGitDebug } from "./git";
-import { renderTemplate } from "./template";
-import { t } from "./i18n";
-import { RevertConfirmModal } from "./modals";
+import { getChangedFiles, commitAll, push, pull, getConflictFiles, markConflictsResolved, markFileResolved, resolveConflict, getInterruptedState, getRepoOperation, InterruptedState, continueOperation, abortOperation, revertAll, revertFile, getChangedFileEntriesSync, getCurrentBranchSync, getCurrentBranch, commitSyncAndPushDetached, pushDetached, isPushed, setGitDebug, fetch, getSyncStatus, SyncStatus, removeStaleIndexLock, isCancelled, GitCallOptions, readFileAtRevision, getChangedFileEntries, commitFiles, ChangedFile, BranchInfo, GitError, listBranches, createBranch, switchBranch, checkoutRemoteBranch, renameBranch, deleteBranch, stashChanges, popStash, ConfigIgnore, isGitRepo, writeConfigIgnoreBlock, findLargeFiles, findLargeFilesSync, isLfsAvailable, lfsTrack, lfsTrackPattern, getAddedLines, getAddedLinesSync, AddedLine, getDiffStats, getDiffStatsSync, DiffStat, CommitIdentity, setGitIdentity, setGitSigning } from "./git";
+import { GitOperationQueue, GitTaskPriority } from "./gitQueue";
+import { commitTemplateVars, renderTemplate, templateUses } from "./template";
+import { describeError, t } from "./i18n";
+import { ConfirmModal, formatFileSize, LargeFilesModal, RevertConfirmModal, SecretsModal, TextPromptModal, UncommittedChangesModal } from "./modals";
+import { compileSecretRules, scanForSecrets, SecretFinding } from "./secrets";
 import { GitStatusBadgeManager } from "./statusBadges";
 import { ProgressNotice } from "./notice";
+import { NoteHistoryView, VIEW_TYPE_HISTORY } from "./historyView";
+import { ConflictDiffModal, DiffModal } from "./diffView";
+import { ConflictModal } from "./conflictModal";
+import { ChangeGutterController } from "./changeGutter";
+import { ConflictEditorController } from "./conflictEditor";
+import { BranchSuggestModal } from "./branchModal";
+import { CommitModal } from "./commitModal";
+import { SyncStatusBar } from "./statusBar";
+import { PushQueue, PushQueueState } from "./pushQueue";
+import { compileIgnorePatterns, PathMatcher } from "./ignore";
+import { CONFIG_CATEGORIES, configIgnoreEntries, DEFAULT_CONFIG_SYNC } from "./configSync";
+
+// Local storage is per device, unlike data.json which travels with the vault
+const DEVICE_IDENTITY_KEY = "auto-git-commit-device-identity";
+const PUSH_QUEUE_KEY = "auto-git-commit-push-queue";
 
 export default class AutoGitPlugin extends Plugin {
 	settings: AutoGitSettings = DEFAULT_SETTINGS;
+	/** Author for this device only; overrides the vault-wide author field by field */
+	deviceIdentity: CommitIdentity = { name: "", email: "" };
+	readonly gitQueue = new GitOperationQueue();
 
 	private debounceTimer: number | null = null;
+	// Started by the first change of a burst; not reset by later changes
+	private maxWaitTimer: number | null = null;
+	private commitIntervalTimer: number | null = null;
 	private isCommitting = false;
 	private pendingRerun = false;
+	// Auto commits would sweep up the files the user is picking through
+	private commitDialogOpen = false;
+	// User exclude patterns: never trigger, stage or badge these paths
+	private excludeMatcher: PathMatcher = () => false;
 	private vaultEventRefs: EventRef[] = [];
 	private conflictFiles: Set<string> = new Set();
 	private _hasConflicts = false;
+	// A stopped merge, rebase or cherry-pick, or a detached HEAD; auto-commit waits while set
+	private interruptedState: InterruptedState | null = null;
 	private resolveConflictCommand: { id: string } | null = null;
 	private ribbonIconEl: HTMLElement | null = null;
 	private beforeUnloadHandler: (() => void) | null = null;
 	private statusBadges: GitStatusBadgeManager | null = null;
+	private changeGutter: ChangeGutterController | null = null;
+	private conflictEditor: ConflictEditorController | null = null;
+	private statusBar: SyncStatusBar | null = null;
+	private statusBarEl: HTMLElement | null = null;
+	private lastPushAt: Date | null = null;
+	// Commits a failed push left behind, retried until they reach the remote
+	private pushQueue = new PushQueue({
+		load: () => this.app.loadLocalStorage(PUSH_QUEUE_KEY) as Partial<PushQueueState> | null,
+		save: (state) => this.app.saveLocalStorage(PUSH_QUEUE_KEY, state),
+		push: () => this.pushQueued(),
+		onDelivered: () => new Notice(t().noticePendingPushed),
+		onGaveUp: (e) => new Notice(t().noticePushFailed(describeError(e))),
+		onChange: () => this.statusBar?.render(),
+	});
+	private fetchTimer: number | null = null;
+	// Behind count already announced, so each batch of remote commits is reported once
+	private notifiedBehind = 0;
+	// Registered once; contents swapped when the gutter setting changes
+	private editorExtensions: Extension[] = [];
 
 	async onload() {
 		await this.loadSettings();
@@ -32,6 +81,12 @@ export default class AutoGitPlugin extends Plugin {
 			callback: () => { void this.runCommit("manual"); },
 		});
 
+		this.addCommand({
+			id: "commit-selected",
+			name: "Commit selected files...",
+			callback: () => { void this.openCommitDialog(); },
+		});
+
 		this.addCommand({
 			id: "commit-and-push",
 			name: "Commit and push",
@@ -53,14 +108,111 @@ export default class AutoGitPlugin extends Plugin {
 			callback: () => { void this.doPush(); },
 		});
 
+		if (!Platform.isMobileApp) {
+			this.registerView(VIEW_TYPE_HISTORY, (leaf) => new NoteHistoryView(leaf, this));
+
+			this.changeGutter = new ChangeGutterController((path) => this.loadCommittedContent(path));
+			this.registerEditorExtension(this.editorExtensions);
+			this.updateChangeGutter();
+
+			this.conflictEditor = new ConflictEditorController(
+				(path) => this.conflictFiles.has(path),
+				(path) => void this.resolveEditedConflict(path),
+			);
+			this.registerEditorExtension(this.conflictEditor.extension());
+
+			this.addCommand({
+				id: "open-note-history",
+				name: "Open note history",
+				callback: () => { void this.openHistoryView(); },
+			});
+
+			this.addCommand({
+				id: "show-file-diff",
+				name: "Show changes in current file",
+				checkCallback: (checking) => {
+					const file = this.app.workspace.getActiveFile();
+					if (!file || !this.statusBadges?.getStatus(file.path)) return false;
+					if (!checking) this.openDiff(file.path);
+					return true;
+				},
+			});
+
+			this.addCommand({
+				id: "open-conflicts",
+				name: "Resolve conflicts",
+				checkCallback: (checking) => {
+					if (!this._hasConflicts) return false;
+					if (!checking) void this.openConflictModal();
+					return true;
+				},
+			});
+		}
+
+		if (!Platform.isMobileApp) {
+			this.addCommand({
+				id: "switch-branch",
+				name: "Switch branch",
+				callback: () => { void this.showBranchSwitcher(); },
+			});
+
+			this.addCommand({
+				id: "create-branch",
+				name: "Create branch",
+				callback: () => this.promptCreateBranch(),
+			});
+
+			this.addCommand({
+				id: "rename-branch",
+				name: "Rename branch",
+				callback: () => { void this.promptRenameBranch(); },
+			});
+
+			this.addCommand({
+				id: "delete-branch",
+				name: "Delete branch",
+				callback: () => { void this.promptDeleteBranch(); },
+			});
+		}
+
+		this.addCommand({
+			id: "continue-operation",
+			name: "Continue merge, rebase or cherry-pick",
+			checkCallback: (checking) => {
+				if (!this.interruptedState || this.interruptedState === "detached") return false;
+				if (!checking) void this.continueInterrupted();
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "abort-operation",
+			name: "Abort merge, rebase or cherry-pick",
+			checkCallback: (checking) => {
+				if (!this.interruptedState || this.interruptedState === "detached") return false;
+				if (!checking) void this.abortInterrupted();
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "remove-stale-lock",
+			name: "Remove stale index lock",
+			callback: () => { void this.removeStaleLock(); },
+		});
+
 		this.setupVaultListeners();
+		this.updateCommitInterval();
 		this.setupFileContextMenu();
 
 		this.app.workspace.onLayoutReady(() => {
 			this.initStatusBadges();
+			this.updateStatusBar();
+			this.updateFetchInterval();
+			void this.resumePushQueue();
 
 			if (this.settings.autoPullOnOpen && !Platform.isMobileApp) {
-				void this.doPull();
+				void this.doPull("auto");
 			}
 		});
 
@@ -68,39 +220,66 @@ export default class AutoGitPlugin extends Plugin {
 			this.beforeUnloadHandler = () => {
 				if (this.settings.commitOnClose) {
 					const cwd = this.getVaultPathSafe();
-					if (cwd) {
-						const changedFiles = getChangedFilesSync(cwd, this.settings.gitPath);
-						if (changedFiles.length > 0) {
-							const now = new Date();
-							const subject = renderTemplate(this.settings.commitTemplate, {
-								date: now.toISOString().slice(0, 10),
-								time: now.toTimeString().slice(0, 8),
-								files: changedFiles.slice(0, 5).join(", ") + (changedFiles.length > 5 ? "..." : ""),
-								count: String(changedFiles.length),
-							});
-							let message = subject;
-							if (this.settings.includeFileList) {
-								const fileList = changedFiles.length <= 5
-									? changedFiles.join("\n")
-									: changedFiles.slice(0, 5).join("\n") + `\n... and ${changedFiles.length - 5} more`;
-								message += "\n\n" + fileList;
-							}
-							commitSyncAndPushDetached(cwd, this.settings.gitPath, message);
-						}
-					}
+					if (cwd) this.commitOnClose(cwd);
 				}
 			};
 			window.addEventListener("beforeunload", this.beforeUnloadHandler);
 		}
 
+		// Back online: deliver whatever is still waiting
+		this.registerDomEvent(window, "online", () => void this.pushQueue.retry());
+
 		void this.checkConflicts();
 	}
 
+	// Runs synchronously while the window closes, so nothing here can ask the user
+	private commitOnClose(cwd: string) {
+		if (this._hasConflicts || this.interruptedState) return;
+		const gitPath = this.settings.gitPath;
+		const entries = getChangedFileEntriesSync(cwd, gitPath);
+		const allChanged = [...new Set(entries.map((f) => f.path))];
+		const excluded = allChanged.filter((p) => this.excludeMatcher(p));
+		const candidates = () => allChanged.filter((p) => !excluded.includes(p));
+
+		// No LFS setup while closing: large files wait for the next regular commit
+		const limitMB = this.settings.largeFileLimitMB;
+		if (limitMB > 0) {
+			excluded.push(...findLargeFilesSync(cwd, candidates(), limitMB * 1024 * 1024));
+		}
+
+		const secretPolicy = this.settings.secretScanPolicy;
+		if (secretPolicy !== "off") {
+			const findings = this.scanSecrets(getAddedLinesSync(cwd, gitPath, candidates()));
+			if (findings.length > 0) {
+				if (secretPolicy === "block") return;
+				excluded.push(...findings.map((f) => f.path));
+			}
+		}
+
+		let pushed: string | null = null;
+		const changedFiles = new Set(candidates());
+		if (changedFiles.size > 0) {
+			const files = entries.filter((f) => changedFiles.has(f.path));
+			const diffStats = this.usesSummary() ? getDiffStatsSync(cwd, gitPath, [...changedFiles]) : undefined;
+			const message = this.buildCommitMessage(files, getCurrentBranchSync(cwd, gitPath), diffStats);
+			pushed = commitSyncAndPushDetached(cwd, gitPath, message, excluded);
+		} else if (this.pushQueue.pending) {
+			pushed = pushDetached(cwd, gitPath);
+		}
+		// The push outlives the window; the next start checks whether it arrived
+		if (pushed) this.pushQueue.recordClosePush(pushed);
+	}
+
 	onunload() {
 		this.clearDebounce();
+		this.clearCommitInterval();
+		this.clearFetchInterval();
+		this.pushQueue.stop();
 		this.removeVaultListeners();
 		this.statusBadges?.stop();
 		this.statusBadges = null;
+		this.statusBar?.stop();
+		this.statusBar = null;
 		if (this.ribbonIconEl) {
 			this.ribbonIconEl.remove();
 			this.ribbonIconEl = null;
@@ -112,14 +291,43 @@ export default class AutoGitPlugin extends Plugin {
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData() as Partial<AutoGitSettings>);
+		const data = await this.loadData() as (Partial<AutoGitSettings> & { ignoreObsidianDir?: boolean }) | null;
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+		this.settings.configSync = { ...DEFAULT_CONFIG_SYNC, ...data?.configSync };
+		// Migrate the former all-or-nothing toggle
+		if (data && !data.configSync && data.ignoreObsidianDir === false) {
+			CONFIG_CATEGORIES.forEach((category) => { this.settings.configSync[category] = true; });
+		}
+		delete (this.settings as { ignoreObsidianDir?: boolean }).ignoreObsidianDir;
 		setGitDebug(this.settings.debugLog);
+		this.updateExcludePatterns();
+
+		const device = this.app.loadLocalStorage(DEVICE_IDENTITY_KEY) as Partial<CommitIdentity> | null;
+		this.deviceIdentity = { name: device?.name ?? "", email: device?.email ?? "" };
+		this.applyIdentity();
+		this.applySigning();
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
 	}
 
+	saveDeviceIdentity() {
+		this.app.saveLocalStorage(DEVICE_IDENTITY_KEY, this.deviceIdentity);
+		this.applyIdentity();
+	}
+
+	applySigning() {
+		setGitSigning({ format: this.settings.signingFormat, key: this.settings.signingKey });
+	}
+
+	applyIdentity() {
+		setGitIdentity({
+			name: this.deviceIdentity.name || this.settings.authorName,
+			email: this.deviceIdentity.email || this.settings.authorEmail,
+		});
+	}
+
 	resetVaultListeners() {
 		this.clearDebounce();
 		this.removeVaultListeners();
@@ -152,6 +360,7 @@ export default class AutoGitPlugin extends Plugin {
 			else if (type === "modify") this.statusBadges.noteModify(file.path);
 			else if (type === "delete") this.statusBadges.noteDelete(file.path);
 		}
+		this.statusBar?.scheduleRefresh();
 
 		if (this.settings.autoCommit) this.scheduleCommit();
 	}
@@ -161,25 +370,63 @@ export default class AutoGitPlugin extends Plugin {
 		if (this.shouldIgnore(oldPath) && this.shouldIgnore(file.path)) return;
 
 		this.statusBadges?.noteRename(oldPath, file.path);
+		this.statusBar?.scheduleRefresh();
 
 		if (this.settings.autoCommit) this.scheduleCommit();
 	}
 
 	private shouldIgnore(path: string): boolean {
 		if (path.startsWith(".git/") || path.startsWith(".git\\")) return true;
-		if (this.settings.ignoreObsidianDir) {
-			const configDir = this.app.vault.configDir;
-			if (path.startsWith(configDir + "/") || path.startsWith(configDir + "\\")) return true;
+		return this.excludeMatcher(path);
+	}
+
+	updateExcludePatterns() {
+		// Config folder rules first so user patterns can override them
+		this.excludeMatcher = compileIgnorePatterns([...this.configIgnore().entries, ...this.settings.excludePatterns]);
+	}
+
+	configIgnore(): ConfigIgnore {
+		const configDir = this.app.vault.configDir;
+		return { configDir, entries: configIgnoreEntries(configDir, this.settings.configSync) };
+	}
+
+	/** Apply changed config folder categories to the matcher and .gitignore */
+	async applyConfigSync() {
+		this.updateExcludePatterns();
+		this.updateStatusBadges();
+
+		const cwd = this.getVaultPathSafe();
+		if (!cwd) return;
+		try {
+			await this.gitQueue.run(async () => {
+				if (await isGitRepo(cwd, this.settings.gitPath)) {
+					await writeConfigIgnoreBlock(cwd, this.configIgnore());
+				}
+			});
+			this.refreshGitStatus();
+		} catch (e) {
+			new Notice(describeError(e));
 		}
-		return false;
 	}
 
 	private scheduleCommit() {
-		this.clearDebounce();
+		// Interval mode commits from its own timer
+		if (this.settings.commitMode === "interval") return;
+
+		if (this.debounceTimer !== null) {
+			window.clearTimeout(this.debounceTimer);
+		}
 		this.debounceTimer = window.setTimeout(() => {
-			this.debounceTimer = null;
+			this.clearDebounce();
 			void this.runCommit("auto");
 		}, this.settings.debounceSeconds * 1000);
+
+		if (this.settings.maxWaitSeconds > 0 && this.maxWaitTimer === null) {
+			this.maxWaitTimer = window.setTimeout(() => {
+				this.clearDebounce();
+				void this.runCommit("auto");
+			}, this.settings.maxWaitSeconds * 1000);
+		}
 	}
 
 	private clearDebounce() {
@@ -187,6 +434,27 @@ export default class AutoGitPlugin extends Plugin {
 			window.clearTimeout(this.debounceTimer);
 			this.debounceTimer = null;
 		}
+		if (this.maxWaitTimer !== null) {
+			window.clearTimeout(this.maxWaitTimer);
+			this.maxWaitTimer = null;
+		}
+	}
+
+	updateCommitInterval() {
+		this.clearCommitInterval();
+		if (Platform.isMobileApp || !this.settings.autoCommit || this.settings.commitMode !== "interval") return;
+
+		// runCommit checks for changes itself and stays quiet when there are none
+		this.commitIntervalTimer = window.setInterval(() => {
+			void this.runCommit("auto");
+		}, this.settings.commitIntervalMinutes * 60 * 1000);
+	}
+
+	private clearCommitInterval() {
+		if (this.commitIntervalTimer !== null) {
+			window.clearInterval(this.commitIntervalTimer);
+			this.commitIntervalTimer = null;
+		}
 	}
 
 	private getVaultPath(): string {
@@ -206,6 +474,8 @@ export default class AutoGitPlugin extends Plugin {
 	}
 
 	async runCommit(reason: "manual" | "auto"): Promise<boolean> {
+		if (reason === "auto" && this.commitDialogOpen) return false;
+
 		if (this._hasConflicts) {
 			if (reason === "manual") {
 				new Notice(t().noticeCannotCommitConflict);
@@ -221,12 +491,27 @@ export default class AutoGitPlugin extends Plugin {
 		this.isCommitting = true;
 		this.pendingRerun = false;
 		let committed = false;
+		const priority: GitTaskPriority = reason === "manual" ? "user" : "auto";
 
 		try {
 			const cwd = this.getVaultPath();
 			const gitPath = this.settings.gitPath;
 
-			const changedFiles = await getChangedFiles(cwd, gitPath);
+			// Checked every time: the merge or rebase may have been started outside Obsidian
+			const interrupted = await this.gitQueue.run(() => getInterruptedState(cwd, gitPath), { priority });
+			this.setInterruptedState(interrupted);
+			// Committing on a detached HEAD is fine when asked for; finishing an operation is not a plain commit
+			if (interrupted && (reason === "auto" || interrupted !== "detached")) {
+				if (reason === "manual") {
+					new Notice(t().noticeInterrupted[interrupted]);
+				}
+				return false;
+			}
+
+			const entries = await this.gitQueue.run(() => getChangedFileEntries(cwd, gitPath), { priority });
+			const allChanged = [...new Set(entries.map((f) => f.path))];
+			const excluded = allChanged.filter((p) => this.excludeMatcher(p));
+			let changedFiles = allChanged.filter((p) => !this.excludeMatcher(p));
 			if (changedFiles.length === 0) {
 				if (reason === "manual") {
 					new Notice(t().noticeNoChanges);
@@ -234,42 +519,48 @@ export default class AutoGitPlugin extends Plugin {
 				return false;
 			}
 
-			const progress = new ProgressNotice(t().noticeCommitting);
+			const guards = [
+				(files: string[]) => this.guardLargeFiles(cwd, files, reason),
+				(files: string[]) => this.guardSecrets(cwd, files, reason),
+			];
+			for (const guard of guards) {
+				const skipped = await guard(changedFiles);
+				if (!skipped) return false;
+				if (skipped.length > 0) {
+					excluded.push(...skipped);
+					changedFiles = changedFiles.filter((p) => !skipped.includes(p));
+					if (changedFiles.length === 0) return false;
+				}
+			}
 
-			const now = new Date();
-			const subject = renderTemplate(this.settings.commitTemplate, {
-				date: now.toISOString().slice(0, 10),
-				time: now.toTimeString().slice(0, 8),
-				files: changedFiles.slice(0, 5).join(", ") + (changedFiles.length > 5 ? "..." : ""),
-				count: String(changedFiles.length),
-			});
+			const controller = new AbortController();
+			const progress = new ProgressNotice(t().noticeCommitting, () => controller.abort());
 
-			let message = subject;
-			if (this.settings.includeFileList) {
-				const fileList = changedFiles.length <= 5
-					? changedFiles.join("\n")
-					: changedFiles.slice(0, 5).join("\n") + `\n... and ${changedFiles.length - 5} more`;
-				message = subject + "\n\n" + fileList;
-			}
+			const committing = new Set(changedFiles);
+			const message = this.buildCommitMessage(
+				entries.filter((f) => committing.has(f.path)),
+				await this.currentBranch(cwd, priority),
+				await this.summaryStats(cwd, changedFiles, priority),
+			);
 
 			try {
-				await commitAll(cwd, gitPath, message);
+				await this.gitQueue.run(() => commitAll(cwd, gitPath, message, { signal: controller.signal, exclude: excluded }), { priority });
 				committed = true;
 				progress.succeed(t().noticeCommitted(changedFiles.length));
 			} catch (e) {
-				progress.fail(t().noticeAutoGitError((e as Error).message));
+				if (isCancelled(e)) {
+					progress.cancelled();
+				} else {
+					progress.fail(t().noticeAutoGitError(describeError(e)));
+				}
 				throw e;
 			}
 
 			if (reason === "auto" && this.settings.autoPush) {
-				await this.doPush();
-			}
-
-			if (this.settings.syncRemotelySaveAfterCommit) {
-				this.triggerRemotelySaveSync();
+				await this.doPush("auto");
 			}
 
-			void this.statusBadges?.refresh();
+			this.afterCommit();
 		} catch {
 			// Error already handled in progress.fail
 		} finally {
@@ -282,17 +573,311 @@ export default class AutoGitPlugin extends Plugin {
 		return committed;
 	}
 
-	async doPush() {
-		const progress = new ProgressNotice(t().noticePushing);
+	/**
+	 * Apply the large file policy to the files about to be committed.
+	 * Returns the paths to leave out, or null when nothing may be committed.
+	 */
+	private async guardLargeFiles(cwd: string, files: string[], reason: "manual" | "auto"): Promise<string[] | null> {
+		const limitMB = this.settings.largeFileLimitMB;
+		if (limitMB <= 0) return [];
+
+		const gitPath = this.settings.gitPath;
+		const priority: GitTaskPriority = reason === "manual" ? "user" : "auto";
+		const large = await this.gitQueue.run(() => findLargeFiles(cwd, gitPath, files, limitMB * 1024 * 1024), { priority });
+		if (large.length === 0) return [];
+
+		let policy = this.settings.largeFilePolicy;
+		let lfsMissing = false;
+		if (policy === "lfs" && !(await this.gitQueue.run(() => isLfsAvailable(cwd, gitPath), { priority }))) {
+			policy = "skip";
+			lfsMissing = true;
+		}
+
+		if (reason === "manual") {
+			const proceed = await new Promise<boolean>((resolve) => {
+				new LargeFilesModal(this.app, { files: large, policy, limitMB, lfsMissing, onChoose: resolve }).open();
+			});
+			if (!proceed) return null;
+		} else {
+			const list = large.map((f) => `${f.path} (${formatFileSize(f.size)})`).join(", ");
+			new Notice(t().noticeLargeFiles(policy, list), 10000);
+		}
+
+		if (policy === "block") return null;
+		if (policy === "skip") return large.map((f) => f.path);
+
+		// Files without an extension have no type to track and are left out instead
+		const patterns = [...new Set(large.map((f) => lfsTrackPattern(f.path)).filter((p): p is string => p !== null))];
+		try {
+			if (patterns.length > 0) {
+				await this.gitQueue.run(() => lfsTrack(cwd, gitPath, patterns), { priority });
+			}
+		} catch (e) {
+			new Notice(t().noticeAutoGitError(describeError(e)));
+			return null;
+		}
+		return large.filter((f) => lfsTrackPattern(f.path) === null).map((f) => f.path);
+	}
+
+	private scanSecrets(added: Map<string, AddedLine[]>): SecretFinding[] {
+		return scanForSecrets(added, compileSecretRules(this.settings.secretPatterns), this.settings.secretAllowlist);
+	}
+
+	/**
+	 * Scan the lines about to be committed for secrets.
+	 * Returns the paths to quarantine, or null when nothing may be committed.
+	 */
+	private async guardSecrets(cwd: string, files: string[], reason: "manual" | "auto"): Promise<string[] | null> {
+		const policy = this.settings.secretScanPolicy;
+		if (policy === "off") return [];
+
+		const gitPath = this.settings.gitPath;
+		const priority: GitTaskPriority = reason === "manual" ? "user" : "auto";
+		const added = await this.gitQueue.run(() => getAddedLines(cwd, gitPath, files), { priority });
+		let findings = this.scanSecrets(added);
+		if (findings.length === 0) return [];
+
+		if (reason === "manual") {
+			const remaining = await new Promise<SecretFinding[] | null>((resolve) => {
+				new SecretsModal(this.app, {
+					findings,
+					policy,
+					onOpenFinding: (finding) => void this.openFileAtLine(finding.path, finding.line),
+					onAllow: (finding) => void this.allowSecret(finding.value),
+					onChoose: resolve,
+				}).open();
+			});
+			if (!remaining) return null;
+			findings = remaining;
+			if (findings.length === 0) return [];
+		} else {
+			const list = findings.slice(0, 3).map((f) => `${f.path}:${f.line} (${f.rule})`).join(", ")
+				+ (findings.length > 3 ? ", ..." : "");
+			new Notice(t().noticeSecretsFound(policy, list), 15000);
+		}
+
+		if (policy === "block") return null;
+		return [...new Set(findings.map((f) => f.path))];
+	}
+
+	private async allowSecret(value: string) {
+		if (this.settings.secretAllowlist.includes(value)) return;
+		this.settings.secretAllowlist = [...this.settings.secretAllowlist, value];
+		await this.saveSettings();
+	}
+
+	private async openFileAtLine(path: string, line: number) {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) return;
+		await this.app.workspace.getLeaf(false).openFile(file, { eState: { line: line - 1 } });
+	}
+
+	async openCommitDialog() {
+		if (this._hasConflicts) {
+			new Notice(t().noticeCannotCommitConflict);
+			return;
+		}
+
+		try {
+			const cwd = this.getVaultPath();
+			if (await this.operationInProgress(cwd)) return;
+			const entries = await this.gitQueue.run(() => getChangedFileEntries(cwd, this.settings.gitPath), { priority: "user" });
+			const files = entries.filter((f) => !this.excludeMatcher(f.path));
+			if (files.length === 0) {
+				new Notice(t().noticeNoChanges);
+				return;
+			}
+
+			const message = this.buildCommitMessage(
+				files,
+				await this.currentBranch(cwd, "user"),
+				await this.summaryStats(cwd, files.map((f) => f.path), "user"),
+			);
+
+			// Set only once nothing can throw, or auto-commit would stay paused with no dialog to close
+			this.commitDialogOpen = true;
+			new CommitModal(this.app, {
+				files,
+				message,
+				onCommit: (selected, message) => void this.commitSelected(selected, message),
+				onShowDiff: (path) => this.openDiff(path),
+				onClose: () => {
+					this.commitDialogOpen = false;
+					if (this.settings.autoCommit) this.scheduleCommit();
+				},
+			}).open();
+		} catch (e) {
+			new Notice(t().noticeAutoGitError(describeError(e)));
+		}
+	}
+
+	/**
+	 * A stopped merge, rebase or cherry-pick has to be continued or aborted, and
+	 * "commit --only" refuses to run in the middle of one. Tells the user so.
+	 */
+	private async operationInProgress(cwd: string): Promise<boolean> {
+		const interrupted = await this.gitQueue.run(() => getInterruptedState(cwd, this.settings.gitPath), { priority: "user" });
+		const known = this.interruptedState;
+		this.setInterruptedState(interrupted);
+		if (!interrupted || interrupted === "detached") return false;
+		// A newly found operation was just announced by setInterruptedState
+		if (interrupted === known) new Notice(t().noticeInterrupted[interrupted]);
+		return true;
+	}
+
+	private async commitSelected(files: ChangedFile[], message: string) {
+		if (this.isCommitting) {
+			new Notice(t().noticeCommitInProgress);
+			return;
+		}
+
+		this.isCommitting = true;
+		try {
+			const cwd = this.getVaultPath();
+			// Checked again: the operation may have started while the dialog was open
+			if (await this.operationInProgress(cwd)) return;
+
+			// The dialog only picks the files; they get the same checks as any manual commit
+			const guards = [
+				(paths: string[]) => this.guardLargeFiles(cwd, paths, "manual"),
+				(paths: string[]) => this.guardSecrets(cwd, paths, "manual"),
+			];
+			for (const guard of guards) {
+				const skipped = await guard(files.map((f) => f.path));
+				if (!skipped) return;
+				files = files.filter((f) => !skipped.includes(f.path));
+				if (files.length === 0) return;
+			}
+
+			// LFS tracking wrote .gitattributes; the files it now tracks need it in the same commit
+			if (this.settings.largeFilePolicy === "lfs" && !files.some((f) => f.path === ".gitattributes")) {
+				const entries = await this.gitQueue.run(() => getChangedFileEntries(cwd, this.settings.gitPath), { priority: "user" });
+				const attributes = entries.find((f) => f.path === ".gitattributes");
+				if (attributes) files = [...files, attributes];
+			}
+
+			const controller = new AbortController();
+			const progress = new ProgressNotice(t().noticeCommitting, () => controller.abort());
+			try {
+				await this.gitQueue.run(
+					() => commitFiles(cwd, this.settings.gitPath, files, message, { signal: controller.signal }),
+					{ priority: "user" }
+				);
+				progress.succeed(t().noticeCommitted(files.length));
+				this.afterCommit();
+			} catch (e) {
+				if (isCancelled(e)) {
+					progress.cancelled();
+				} else {
+					progress.fail(t().noticeAutoGitError(describeError(e)));
+				}
+			}
+		} catch (e) {
+			new Notice(t().noticeAutoGitError(describeError(e)));
+		} finally {
+			this.isCommitting = false;
+			if (this.pendingRerun) {
+				this.scheduleCommit();
+			}
+		}
+	}
+
+	private afterCommit() {
+		if (this.settings.syncRemotelySaveAfterCommit) {
+			this.triggerRemotelySaveSync();
+		}
+
+		this.refreshGitStatus();
+		this.changeGutter?.refresh();
+		this.refreshHistoryViews();
+	}
+
+	/** Commit message from the template, optionally followed by the file list */
+	buildCommitMessage(files: ChangedFile[], branch: string | null, diffStats?: Map<string, DiffStat>): string {
+		const limit = Math.max(this.settings.fileListLimit, 1);
+		const vars = commitTemplateVars(files, { branch, fileLimit: limit, diffStats, configDir: this.app.vault.configDir });
+		const subject = renderTemplate(this.settings.commitTemplate, vars);
+
+		if (!this.settings.includeFileList) return subject;
+		const paths = files.map((f) => f.path);
+		const fileList = paths.length <= limit
+			? paths.join("\n")
+			: paths.slice(0, limit).join("\n") + `\n... and ${paths.length - limit} more`;
+		return subject + "\n\n" + fileList;
+	}
+
+	// The diff behind {{summary}} is only worth running when the template shows it
+	private usesSummary(): boolean {
+		return templateUses(this.settings.commitTemplate, "summary");
+	}
+
+	private async summaryStats(cwd: string, paths: string[], priority: GitTaskPriority): Promise<Map<string, DiffStat> | undefined> {
+		if (!this.usesSummary()) return undefined;
+		return this.gitQueue.run(() => getDiffStats(cwd, this.settings.gitPath, paths), { priority });
+	}
+
+	private async currentBranch(cwd: string, priority: GitTaskPriority): Promise<string | null> {
+		try {
+			return await this.gitQueue.run(() => getCurrentBranch(cwd, this.settings.gitPath), { priority });
+		} catch {
+			// Detached HEAD or no commits yet
+			return null;
+		}
+	}
+
+	async doPush(priority: GitTaskPriority = "user") {
+		const controller = new AbortController();
+		const progress = new ProgressNotice(t().noticePushing, () => controller.abort());
 		try {
 			const cwd = this.getVaultPath();
-			await push(cwd, this.settings.gitPath);
+			await this.gitQueue.run(() => push(cwd, this.settings.gitPath, this.networkOptions(controller.signal)), { priority });
+			this.lastPushAt = new Date();
+			this.pushQueue.succeeded();
 			progress.succeed(t().noticePushed);
+			this.refreshGitStatus();
 		} catch (e) {
-			progress.fail(t().noticePushFailed((e as Error).message));
+			if (isCancelled(e)) {
+				progress.cancelled();
+			} else {
+				const message = describeError(e);
+				progress.fail(this.pushQueue.failed(e) ? t().noticePushQueued(message) : t().noticePushFailed(message));
+			}
 		}
 	}
 
+	// Quiet push for queue retries; the queue reports the outcome
+	private async pushQueued() {
+		const cwd = this.getVaultPath();
+		await this.gitQueue.run(() => push(cwd, this.settings.gitPath, this.networkOptions()), { priority: "auto" });
+		this.lastPushAt = new Date();
+		this.refreshGitStatus();
+	}
+
+	// Settle the detached push from the last close, then retry anything still queued
+	private async resumePushQueue() {
+		const commit = this.pushQueue.takeClosePush();
+		const cwd = this.getVaultPathSafe();
+		if (commit && cwd) {
+			const pushed = await this.gitQueue.run(() => isPushed(cwd, this.settings.gitPath, commit), { priority: "background" });
+			if (pushed) {
+				this.pushQueue.succeeded();
+			} else {
+				new Notice(t().noticeClosePushFailed);
+				this.pushQueue.enqueue();
+			}
+		}
+		await this.pushQueue.retry();
+	}
+
+	/** Signal plus the configured limits for commands that talk to the remote */
+	networkOptions(signal?: AbortSignal): GitCallOptions {
+		return {
+			signal,
+			timeoutMs: this.settings.networkTimeoutSeconds * 1000,
+			stallSeconds: this.settings.stallTimeoutSeconds,
+		};
+	}
+
 	private triggerRemotelySaveSync() {
 		try {
 			const commands = (this.app as unknown as { commands?: { executeCommandById?(id: string): boolean } }).commands;
@@ -306,7 +891,7 @@ export default class AutoGitPlugin extends Plugin {
 		if (this.settings.showRibbonButton && !Platform.isMobileApp) {
 			if (!this.ribbonIconEl) {
 				this.ribbonIconEl = this.addRibbonIcon("git-branch", "Git", (evt) => {
-					this.showRibbonMenu(evt);
+					this.buildGitMenu().showAtMouseEvent(evt);
 				});
 			}
 		} else if (this.ribbonIconEl) {
@@ -315,7 +900,8 @@ export default class AutoGitPlugin extends Plugin {
 		}
 	}
 
-	private showRibbonMenu(evt: MouseEvent) {
+	// Shared by the ribbon button and the status bar item
+	private buildGitMenu(): Menu {
 		const i18n = t();
 		const menu = new Menu();
 
@@ -325,6 +911,9 @@ export default class AutoGitPlugin extends Plugin {
 		menu.addItem((item) =>
 			item.setTitle(i18n.ribbonMenuCommit).setIcon("check").onClick(() => void this.runCommit("manual"))
 		);
+		menu.addItem((item) =>
+			item.setTitle(i18n.ribbonMenuCommitSelected).setIcon("list-checks").onClick(() => void this.openCommitDialog())
+		);
 		menu.addItem((item) =>
 			item.setTitle(i18n.ribbonMenuPush).setIcon("upload").onClick(() => void this.doPush())
 		);
@@ -334,18 +923,33 @@ export default class AutoGitPlugin extends Plugin {
 				await this.doPush();
 			})
 		);
+		if (this._hasConflicts) {
+			menu.addItem((item) =>
+				item.setTitle(i18n.ribbonMenuResolveConflicts).setIcon("git-merge").onClick(() => void this.openConflictModal())
+			);
+		} else if (this.interruptedState && this.interruptedState !== "detached") {
+			menu.addItem((item) =>
+				item.setTitle(i18n.ribbonMenuContinueOperation).setIcon("play").onClick(() => void this.continueInterrupted())
+			);
+			menu.addItem((item) =>
+				item.setTitle(i18n.ribbonMenuAbortOperation).setIcon("x-circle").onClick(() => void this.abortInterrupted())
+			);
+		}
 		menu.addSeparator();
+		menu.addItem((item) =>
+			item.setTitle(i18n.ribbonMenuSwitchBranch).setIcon("git-branch").onClick(() => void this.showBranchSwitcher())
+		);
 		menu.addItem((item) =>
 			item.setTitle(i18n.ribbonMenuRevertAll).setIcon("rotate-ccw").onClick(() => void this.doRevert())
 		);
 
-		menu.showAtMouseEvent(evt);
+		return menu;
 	}
 
 	private async doRevert() {
 		try {
 			const cwd = this.getVaultPath();
-			const changedFiles = await getChangedFiles(cwd, this.settings.gitPath);
+			const changedFiles = await this.gitQueue.run(() => getChangedFiles(cwd, this.settings.gitPath));
 
 			if (changedFiles.length === 0) {
 				new Notice(t().revertNoChanges);
@@ -355,16 +959,17 @@ export default class AutoGitPlugin extends Plugin {
 			new RevertConfirmModal(this.app, changedFiles, () => {
 				void (async () => {
 					try {
-						await revertAll(cwd, this.settings.gitPath);
+						await this.gitQueue.run(() => revertAll(cwd, this.settings.gitPath));
 						new Notice(t().noticeReverted);
-						void this.statusBadges?.refresh();
+						this.refreshGitStatus();
+						this.changeGutter?.refresh();
 					} catch (e) {
-						new Notice(t().noticeRevertFailed((e as Error).message));
+						new Notice(t().noticeRevertFailed(describeError(e)));
 					}
 				})();
-			}).open();
+			}, (file) => this.openDiff(file)).open();
 		} catch (e) {
-			new Notice(t().noticeRevertFailed((e as Error).message));
+			new Notice(t().noticeRevertFailed(describeError(e)));
 		}
 	}
 
@@ -376,9 +981,22 @@ export default class AutoGitPlugin extends Plugin {
 				if (!(file instanceof TFile)) return;
 
 				const filePath = file.path;
+
+				menu.addItem((item) => {
+					item.setTitle(t().historyFileMenu)
+						.setIcon("history")
+						.onClick(() => void this.openHistoryView(file));
+				});
+
 				const status = this.statusBadges?.getStatus(filePath);
 				if (!status) return;
 
+				menu.addItem((item) => {
+					item.setTitle(t().diffFileMenu)
+						.setIcon("file-diff")
+						.onClick(() => this.openDiff(filePath));
+				});
+
 				menu.addItem((item) => {
 					item.setTitle(t().revertFileMenu)
 						.setIcon("rotate-ccw")
@@ -387,51 +1005,124 @@ export default class AutoGitPlugin extends Plugin {
 								void (async () => {
 									try {
 										const cwd = this.getVaultPath();
-										await revertFile(cwd, this.settings.gitPath, filePath);
+										await this.gitQueue.run(() => revertFile(cwd, this.settings.gitPath, filePath));
 										new Notice(t().noticeFileReverted);
-										void this.statusBadges?.refresh();
+										this.refreshGitStatus();
+										this.changeGutter?.refresh();
 									} catch (e) {
-										new Notice(t().noticeFileRevertFailed((e as Error).message));
+										new Notice(t().noticeFileRevertFailed(describeError(e)));
 									}
 								})();
-							}).open();
+							}, (path) => this.openDiff(path)).open();
 						});
 				});
 			})
 		);
 	}
 
-	async doPull() {
+	async doPull(priority: GitTaskPriority = "user") {
 		if (Platform.isMobileApp) {
 			new Notice(t().noticeMobileNotSupported);
 			return;
 		}
 
-		const progress = new ProgressNotice(t().noticePulling);
+		const controller = new AbortController();
+		const progress = new ProgressNotice(t().noticePulling, () => controller.abort());
 		try {
 			const cwd = this.getVaultPath();
-			const result = await pull(cwd, this.settings.gitPath);
+			const result = await this.gitQueue.run(() => pull(cwd, this.settings.gitPath, {
+				...this.networkOptions(controller.signal),
+				strategy: this.settings.pullStrategy,
+				autoStash: this.settings.autoStash,
+			}), { priority });
 
 			if (result.hasConflicts) {
 				await this.checkConflicts();
-				progress.fail(t().noticeConflictDetected);
+				if (result.stashConflict) {
+					progress.fail(t().noticeStashConflict);
+				} else {
+					progress.fail(result.rebaseInProgress ? t().noticeRebaseConflictDetected : t().noticeConflictDetected);
+				}
+				if (result.stashRetained) {
+					new Notice(t().noticeStashRetained);
+				}
+				this.refreshGitStatus();
+				// Background pulls leave it to the notice; a pull the user started goes straight to resolving
+				if (priority === "user") await this.openConflictModal();
+			} else if (result.notReady) {
+				const { state } = result;
+				const interrupted = state === "merging" || state === "rebasing" || state === "cherry-picking" || state === "detached";
+				progress.fail(interrupted ? t().noticeInterrupted[state] : t().noticePullFailed(result.message));
 			} else if (result.success) {
-				progress.succeed(t().noticePulled);
-				void this.statusBadges?.refresh();
+				progress.succeed(t().noticePulled[result.outcome ?? "up-to-date"]);
+				this.refreshGitStatus();
+				this.changeGutter?.refresh();
 			}
 		} catch (e) {
-			progress.fail(t().noticePullFailed((e as Error).message));
+			if (isCancelled(e)) {
+				progress.cancelled();
+			} else {
+				progress.fail(t().noticePullFailed(describeError(e)));
+			}
 		}
 	}
 
-	private async checkConflicts() {
+	/** Refresh the conflicted files and whether a merge, rebase or cherry-pick is still in progress */
+	async checkConflicts() {
 		const cwd = this.getVaultPathSafe();
 		if (!cwd) return;
 
-		const conflicts = await getConflictFiles(cwd, this.settings.gitPath);
+		const gitPath = this.settings.gitPath;
+		const [conflicts, interrupted] = await this.gitQueue.run(async () => [
+			await getConflictFiles(cwd, gitPath),
+			await getInterruptedState(cwd, gitPath),
+		] as const, { priority: "auto" });
 		this.conflictFiles = new Set(conflicts);
 		this.setHasConflicts(conflicts.length > 0);
-		this.statusBadges?.setConflicts(this.conflictFiles);
+		this.conflictFilesChanged();
+		this.setInterruptedState(interrupted);
+	}
+
+	private setInterruptedState(value: InterruptedState | null) {
+		if (value === this.interruptedState) return;
+		this.interruptedState = value;
+		// Conflicts come with their own notice
+		if (value && !this._hasConflicts) {
+			new Notice(t().noticeInterrupted[value], 10000);
+		}
+		this.statusBar?.render();
+	}
+
+	async continueInterrupted(): Promise<void> {
+		const cwd = this.getVaultPathSafe();
+		if (!cwd) return;
+		const gitPath = this.settings.gitPath;
+		try {
+			await this.gitQueue.run(async () => {
+				const operation = await getRepoOperation(cwd, gitPath);
+				if (operation) await continueOperation(cwd, gitPath, operation);
+			}, { priority: "user" });
+			new Notice(t().noticeOperationContinued);
+		} catch (e) {
+			new Notice(describeError(e));
+		}
+		this.onBranchChanged();
+	}
+
+	async abortInterrupted(): Promise<void> {
+		const cwd = this.getVaultPathSafe();
+		if (!cwd) return;
+		const gitPath = this.settings.gitPath;
+		try {
+			await this.gitQueue.run(async () => {
+				const operation = await getRepoOperation(cwd, gitPath);
+				if (operation) await abortOperation(cwd, gitPath, operation);
+			}, { priority: "user" });
+			new Notice(t().noticeOperationAborted);
+		} catch (e) {
+			new Notice(describeError(e));
+		}
+		this.onBranchChanged();
 	}
 
 	setHasConflicts(value: boolean) {
@@ -441,27 +1132,95 @@ export default class AutoGitPlugin extends Plugin {
 			this.resolveConflictCommand = this.addCommand({
 				id: "resolve-conflicts",
 				name: "Mark conflicts as resolved",
-				callback: async () => {
-					const cwd = this.getVaultPathSafe();
-					if (!cwd) return;
-					try {
-						await markConflictsResolved(cwd, this.settings.gitPath);
-						this.conflictFiles.clear();
-						this.setHasConflicts(false);
-						this.statusBadges?.setConflicts(this.conflictFiles);
-						new Notice(t().noticeConflictResolved);
-						void this.statusBadges?.refresh();
-					} catch (e) {
-						new Notice((e as Error).message);
-					}
-				},
+				callback: () => void this.resolveAllConflicts(),
 			});
 		}
 
 		if (!value) {
 			this.conflictFiles.clear();
-			this.statusBadges?.setConflicts(this.conflictFiles);
+			this.conflictFilesChanged();
+		}
+
+		this.statusBar?.render();
+	}
+
+	/** Stage everything and continue a stopped rebase; refused while conflict markers remain */
+	async resolveAllConflicts(): Promise<boolean> {
+		const cwd = this.getVaultPathSafe();
+		if (!cwd) return false;
+		try {
+			const gitPath = this.settings.gitPath;
+			await this.gitQueue.run(async () => {
+				const excluded = (await getChangedFiles(cwd, gitPath)).filter((p) => this.excludeMatcher(p));
+				await markConflictsResolved(cwd, gitPath, excluded);
+			}, { priority: "user" });
+			this.setHasConflicts(false);
+			new Notice(t().noticeConflictResolved);
+			// The merge or rebase is concluded now, so HEAD has moved
+			this.onBranchChanged();
+			return true;
+		} catch (e) {
+			new Notice(describeError(e));
+			await this.checkConflicts();
+			return false;
+		}
+	}
+
+	async openConflictModal() {
+		await this.checkConflicts();
+		if (this.conflictFiles.size === 0) {
+			new Notice(t().noticeNoConflicts);
+			return;
+		}
+
+		new ConflictModal(this.app, {
+			files: [...this.conflictFiles],
+			onKeep: (path, side) => this.resolveConflictFile(path, (cwd, gitPath) => resolveConflict(cwd, gitPath, path, side)),
+			onMarkResolved: (path) => this.resolveConflictFile(path, (cwd, gitPath) => markFileResolved(cwd, gitPath, path)),
+			onOpenFile: (path) => void this.openConflictFile(path),
+			onShowDiff: (path) => new ConflictDiffModal(this.app, this, path).open(),
+			onAllResolved: () => void this.resolveAllConflicts(),
+		}).open();
+	}
+
+	private async resolveConflictFile(path: string, resolve: (cwd: string, gitPath: string) => Promise<void>): Promise<boolean> {
+		const cwd = this.getVaultPathSafe();
+		if (!cwd) return false;
+		try {
+			await this.gitQueue.run(() => resolve(cwd, this.settings.gitPath), { priority: "user" });
+		} catch (e) {
+			new Notice(describeError(e));
+			return false;
 		}
+		// The last file is left to onAllResolved, which also continues a rebase
+		this.conflictFiles.delete(path);
+		this.conflictFilesChanged();
+		this.refreshGitStatus();
+		return true;
+	}
+
+	private conflictFilesChanged() {
+		this.statusBadges?.setConflicts(this.conflictFiles);
+		this.conflictEditor?.refresh();
+	}
+
+	// Every conflict block in the editor was accepted one way or another
+	private async resolveEditedConflict(path: string) {
+		// The file is checked for markers on disk, so write out the editor first
+		for (const leaf of this.app.workspace.getLeavesOfType("markdown")) {
+			if (leaf.view instanceof MarkdownView && leaf.view.file?.path === path) await leaf.view.save();
+		}
+		const resolved = await this.resolveConflictFile(path, (cwd, gitPath) => markFileResolved(cwd, gitPath, path));
+		if (resolved && this.conflictFiles.size === 0) await this.resolveAllConflicts();
+	}
+
+	// Jump to the first conflict marker, where there is one
+	private async openConflictFile(path: string) {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) return;
+		const lines = (await this.app.vault.read(file)).split("\n");
+		const markerLine = lines.findIndex((line) => line.startsWith("<<<<<<<"));
+		await this.openFileAtLine(path, markerLine === -1 ? 1 : markerLine + 1);
 	}
 
 	private initStatusBadges() {
@@ -471,6 +1230,7 @@ export default class AutoGitPlugin extends Plugin {
 			getCwd: () => this.getVaultPathSafe(),
 			getGitPath: () => this.settings.gitPath,
 			shouldIgnore: (path) => this.shouldIgnore(path),
+			runQueued: (task) => this.gitQueue.run(task, { priority: "background", key: "badge-refresh" }),
 		});
 
 		this.statusBadges.setConflicts(this.conflictFiles);
@@ -492,7 +1252,364 @@ export default class AutoGitPlugin extends Plugin {
 		this.statusBadges.start(this.settings.showStatusBadge, this.settings.badgeRefreshInterval);
 	}
 
-	refreshStatusBadges() {
+	updateFetchInterval() {
+		this.clearFetchInterval();
+		if (Platform.isMobileApp || this.settings.fetchIntervalMinutes <= 0) return;
+
+		this.fetchTimer = window.setInterval(() => {
+			void this.backgroundFetch();
+		}, this.settings.fetchIntervalMinutes * 60 * 1000);
+	}
+
+	private clearFetchInterval() {
+		if (this.fetchTimer !== null) {
+			window.clearInterval(this.fetchTimer);
+			this.fetchTimer = null;
+		}
+	}
+
+	private async backgroundFetch() {
+		// A pull would race the commit or pile onto unresolved conflicts
+		if (this.isCommitting || this._hasConflicts) return;
+
+		const cwd = this.getVaultPathSafe();
+		if (!cwd) return;
+
+		const gitPath = this.settings.gitPath;
+		let status: SyncStatus;
+		try {
+			status = await this.gitQueue.run(async () => {
+				await fetch(cwd, gitPath, this.networkOptions());
+				return getSyncStatus(cwd, gitPath, (path) => this.excludeMatcher(path));
+			}, { priority: "background", key: "background-fetch" });
+		} catch {
+			// Offline or no remote; try again next interval
+			return;
+		}
+
+		this.statusBar?.setStatus(status);
+		// The remote answered, so a queued push has a chance now
+		if (this.pushQueue.pending) void this.pushQueue.retry();
+		if (status.behind === 0) {
+			this.notifiedBehind = 0;
+			return;
+		}
+
+		if (this.settings.autoPullAfterFetch && status.changedCount === 0 && !this.isCommitting && !this._hasConflicts && !this.interruptedState) {
+			await this.doPull("auto");
+			return;
+		}
+
+		if (status.behind > this.notifiedBehind) {
+			this.notifiedBehind = status.behind;
+			new Notice(t().noticeRemoteChanges(status.behind));
+		}
+	}
+
+	private async removeStaleLock() {
+		const cwd = this.getVaultPathSafe();
+		if (!cwd) return;
+
+		try {
+			const result = await this.gitQueue.run(() => removeStaleIndexLock(cwd, this.settings.gitPath));
+			new Notice(t().noticeStaleLock[result]);
+		} catch (e) {
+			new Notice(describeError(e));
+		}
+	}
+
+	async openHistoryView(file?: TFile) {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_HISTORY)[0];
+		if (!leaf) {
+			const rightLeaf = workspace.getRightLeaf(false);
+			if (!rightLeaf) return;
+			leaf = rightLeaf;
+			await leaf.setViewState({ type: VIEW_TYPE_HISTORY, active: true });
+		}
+		await workspace.revealLeaf(leaf);
+
+		if (file && leaf.view instanceof NoteHistoryView) {
+			await leaf.view.setFile(file);
+		}
+	}
+
+	updateChangeGutter() {
+		this.editorExtensions.length = 0;
+		if (this.changeGutter && this.settings.showChangeGutter) {
+			this.editorExtensions.push(this.changeGutter.extension());
+		}
+		this.app.workspace.updateOptions();
+	}
+
+	// Committed version of a file for the gutter; "" for new files, null when there is nothing to compare with
+	private async loadCommittedContent(path: string): Promise<string | null> {
+		const cwd = this.getVaultPathSafe();
+		if (!cwd || this.shouldIgnore(path)) return null;
+		try {
+			const content = await this.gitQueue.run(
+				() => readFileAtRevision(cwd, this.settings.gitPath, "HEAD", path),
+				{ priority: "background" }
+			);
+			return content ?? "";
+		} catch {
+			return null;
+		}
+	}
+
+	openDiff(path: string) {
+		new DiffModal(this.app, this, path).open();
+	}
+
+	private async loadBranches(): Promise<BranchInfo[] | null> {
+		try {
+			const cwd = this.getVaultPath();
+			return await this.gitQueue.run(() => listBranches(cwd, this.settings.gitPath), { priority: "user" });
+		} catch (e) {
+			new Notice(t().noticeBranchFailed(describeError(e)));
+			return null;
+		}
+	}
+
+	private pickBranch(branches: BranchInfo[], placeholder: string, onChoose: (branch: BranchInfo) => void) {
+		if (branches.length === 0) {
+			new Notice(t().branchNoOthers);
+			return;
+		}
+		new BranchSuggestModal(this.app, branches, placeholder, onChoose).open();
+	}
+
+	async showBranchSwitcher() {
+		const branches = await this.loadBranches();
+		if (!branches) return;
+
+		// Remote branches that already have a local counterpart would just switch to it
+		const localNames = new Set(branches.filter((b) => !b.remote).map((b) => b.name));
+		const candidates = branches.filter((b) =>
+			!b.current && !(b.remote && localNames.has(b.name.slice(b.name.indexOf("/") + 1)))
+		);
+		this.pickBranch(candidates, t().branchSwitchPlaceholder, (branch) => void this.checkoutBranch(branch));
+	}
+
+	private async checkoutBranch(branch: BranchInfo) {
+		if (this._hasConflicts) {
+			new Notice(t().noticeCannotSwitchConflict);
+			return;
+		}
+
+		try {
+			const cwd = this.getVaultPath();
+			const changedFiles = await this.gitQueue.run(() => getChangedFiles(cwd, this.settings.gitPath), { priority: "user" });
+			if (changedFiles.length === 0) {
+				await this.runCheckout(branch);
+				return;
+			}
+
+			new UncommittedChangesModal(this.app, changedFiles, (choice) => {
+				void (async () => {
+					if (choice === "commit" && changedFiles.some((p) => !this.excludeMatcher(p))) {
+						// runCommit would only queue a rerun and leave the switch hanging
+						if (this.isCommitting) {
+							new Notice(t().noticeCommitInProgress);
+							return;
+						}
+						if (!(await this.runCommit("manual"))) return;
+					}
+
+					// Excluded files are never committed, so after a commit they go into the stash too
+					const message = `GitAutoCommit: before switching to ${branch.name}`;
+					let stashed: boolean;
+					try {
+						stashed = await this.gitQueue.run(() => stashChanges(cwd, this.settings.gitPath, message), { priority: "user" });
+					} catch (e) {
+						new Notice(t().noticeBranchFailed(describeError(e)));
+						return;
+					}
+					if (stashed) new Notice(t().noticeBranchStashed(message), 10000);
+
+					const name = await this.runCheckout(branch);
+					if (stashed && name) this.offerStashPop(cwd, message, name);
+				})();
+			}).open();
+		} catch (e) {
+			new Notice(t().noticeBranchFailed(describeError(e)));
+		}
+	}
+
+	private offerStashPop(cwd: string, message: string, branchName: string) {
+		const i18n = t();
+		new ConfirmModal(this.app, {
+			title: i18n.branchStashPopTitle,
+			message: i18n.branchStashPopDesc(branchName),
+			confirmText: i18n.branchStashPopButton,
+			onConfirm: () => void (async () => {
+				try {
+					await this.gitQueue.run(() => popStash(cwd, this.settings.gitPath, message), { priority: "user" });
+					new Notice(i18n.noticeStashPopped);
+				} catch (e) {
+					new Notice(i18n.noticeStashPopFailed(describeError(e)));
+				}
+				this.refreshGitStatus();
+				void this.checkConflicts();
+			})(),
+		}).open();
+	}
+
+	// Resolves to the branch now checked out, or null when the switch failed
+	private async runCheckout(branch: BranchInfo): Promise<string | null> {
+		// Don't let a pending auto commit land on the branch we are switching to
+		this.clearDebounce();
+		try {
+			const cwd = this.getVaultPath();
+			const gitPath = this.settings.gitPath;
+			const name = await this.gitQueue.run(async () => {
+				if (branch.remote) return checkoutRemoteBranch(cwd, gitPath, branch.name);
+				await switchBranch(cwd, gitPath, branch.name);
+				return branch.name;
+			}, { priority: "user" });
+			new Notice(t().noticeBranchSwitched(name));
+			this.onBranchChanged();
+			return name;
+		} catch (e) {
+			new Notice(t().noticeBranchFailed(describeError(e)));
+			this.onBranchChanged();
+			return null;
+		}
+	}
+
+	promptCreateBranch() {
+		const i18n = t();
+		new TextPromptModal(this.app, {
+			title: i18n.branchCreateTitle,
+			placeholder: i18n.branchNamePlaceholder,
+			confirmText: i18n.branchCreateTitle,
+			onSubmit: (name) => {
+				void (async () => {
+					try {
+						const cwd = this.getVaultPath();
+						// Uncommitted changes carry over to the new branch, so no need to ask
+						await this.gitQueue.run(() => createBranch(cwd, this.settings.gitPath, name), { priority: "user" });
+						new Notice(t().noticeBranchCreated(name));
+						this.onBranchChanged();
+					} catch (e) {
+						new Notice(t().noticeBranchFailed(describeError(e)));
+					}
+				})();
+			},
+		}).open();
+	}
+
+	async promptRenameBranch() {
+		const branches = await this.loadBranches();
+		if (!branches) return;
+
+		this.pickBranch(branches.filter((b) => !b.remote), t().branchPickPlaceholder, (branch) => {
+			const i18n = t();
+			new TextPromptModal(this.app, {
+				title: i18n.branchRenameTitle(branch.name),
+				placeholder: i18n.branchNamePlaceholder,
+				confirmText: i18n.saveButton,
+				value: branch.name,
+				onSubmit: (newName) => {
+					if (newName === branch.name) return;
+					void (async () => {
+						try {
+							const cwd = this.getVaultPath();
+							await this.gitQueue.run(() => renameBranch(cwd, this.settings.gitPath, branch.name, newName), { priority: "user" });
+							new Notice(t().noticeBranchRenamed(newName));
+							this.refreshGitStatus();
+						} catch (e) {
+							new Notice(t().noticeBranchFailed(describeError(e)));
+						}
+					})();
+				},
+			}).open();
+		});
+	}
+
+	async promptDeleteBranch() {
+		const branches = await this.loadBranches();
+		if (!branches) return;
+
+		this.pickBranch(branches.filter((b) => !b.remote && !b.current), t().branchPickPlaceholder, (branch) => {
+			const i18n = t();
+			new ConfirmModal(this.app, {
+				title: i18n.branchDeleteTitle,
+				message: i18n.branchDeleteDesc(branch.name),
+				confirmText: i18n.branchDeleteButton,
+				onConfirm: () => void this.runDeleteBranch(branch.name, false),
+			}).open();
+		});
+	}
+
+	private async runDeleteBranch(name: string, force: boolean) {
+		try {
+			const cwd = this.getVaultPath();
+			await this.gitQueue.run(() => deleteBranch(cwd, this.settings.gitPath, name, force), { priority: "user" });
+			new Notice(t().noticeBranchDeleted(name));
+		} catch (e) {
+			if (!force && e instanceof GitError && e.kind === "branch-not-merged") {
+				const i18n = t();
+				new ConfirmModal(this.app, {
+					title: i18n.branchDeleteTitle,
+					message: i18n.branchForceDeleteDesc(name),
+					confirmText: i18n.branchDeleteButton,
+					onConfirm: () => void this.runDeleteBranch(name, true),
+				}).open();
+				return;
+			}
+			new Notice(t().noticeBranchFailed(describeError(e)));
+		}
+	}
+
+	// The working tree may now match a different commit
+	private onBranchChanged() {
+		void this.checkConflicts();
+		this.refreshGitStatus();
+		this.changeGutter?.refresh();
+		this.refreshHistoryViews();
+	}
+
+	private refreshHistoryViews() {
+		this.app.workspace.getLeavesOfType(VIEW_TYPE_HISTORY).forEach((leaf) => {
+			if (leaf.view instanceof NoteHistoryView) void leaf.view.refresh();
+		});
+	}
+
+	refreshGitStatus() {
 		void this.statusBadges?.refresh();
+		void this.statusBar?.refresh();
+	}
+
+	updateStatusBar() {
+		if (Platform.isMobileApp || !this.settings.showStatusBar) {
+			this.statusBar?.stop();
+			this.statusBar = null;
+			this.statusBarEl?.remove();
+			this.statusBarEl = null;
+			return;
+		}
+
+		if (!this.statusBar) {
+			this.statusBarEl = this.addStatusBarItem();
+			this.statusBar = new SyncStatusBar(this.statusBarEl, {
+				getCwd: () => this.getVaultPathSafe(),
+				getGitPath: () => this.settings.gitPath,
+				isExcluded: (path) => this.excludeMatcher(path),
+				getState: () => ({
+					autoCommit: this.settings.autoCommit,
+					hasConflicts: this._hasConflicts,
+					interrupted: this.interruptedState,
+					lastPush: this.lastPushAt,
+					pushPending: this.pushQueue.pending,
+					nextPushRetry: this.pushQueue.nextRetry,
+				}),
+				runQueued: (task) => this.gitQueue.run(task, { priority: "background", key: "status-bar-refresh" }),
+				onClick: (evt) => this.buildGitMenu().showAtMouseEvent(evt),
+			});
+			void this.statusBar.refresh();
+		} else {
+			this.statusBar.render();
+		}
 	}
 }
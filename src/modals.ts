@@ -1,14 +1,19 @@
 import { App, Modal } from "obsidian";
+import type { LargeFile } from "./git";
 import { t } from "./i18n";
+import { maskSecret, SecretFinding } from "./secrets";
+import type { LargeFilePolicy, SecretScanPolicy } from "./settings";
 
 export class RevertConfirmModal extends Modal {
 	private files: string[];
 	private onConfirm: () => void;
+	private onShowDiff?: (file: string) => void;
 
-	constructor(app: App, files: string[], onConfirm: () => void) {
+	constructor(app: App, files: string[], onConfirm: () => void, onShowDiff?: (file: string) => void) {
 		super(app);
 		this.files = files;
 		this.onConfirm = onConfirm;
+		this.onShowDiff = onShowDiff;
 	}
 
 	onOpen() {
@@ -20,7 +25,15 @@ export class RevertConfirmModal extends Modal {
 
 		const listEl = contentEl.createEl("ul", { cls: "revert-file-list" });
 		this.files.forEach((file) => {
-			listEl.createEl("li", { text: file });
+			const itemEl = listEl.createEl("li", { text: file });
+			const onShowDiff = this.onShowDiff;
+			if (onShowDiff) {
+				const diffLink = itemEl.createEl("a", { text: i18n.diffShowLink, cls: "revert-file-diff", href: "#" });
+				diffLink.addEventListener("click", (evt) => {
+					evt.preventDefault();
+					onShowDiff(file);
+				});
+			}
 		});
 
 		const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
@@ -43,3 +56,289 @@ export class RevertConfirmModal extends Modal {
 		this.contentEl.empty();
 	}
 }
+
+export interface ConfirmModalOptions {
+	title: string;
+	message: string;
+	confirmText: string;
+	onConfirm: () => void;
+}
+
+export class ConfirmModal extends Modal {
+	constructor(app: App, private options: ConfirmModalOptions) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+
+		contentEl.createEl("h2", { text: this.options.title });
+		contentEl.createEl("p", { text: this.options.message });
+
+		const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+
+		buttonContainer.createEl("button", { text: t().revertCancelButton }).addEventListener("click", () => {
+			this.close();
+		});
+
+		const confirmBtn = buttonContainer.createEl("button", {
+			text: this.options.confirmText,
+			cls: "mod-warning",
+		});
+		confirmBtn.addEventListener("click", () => {
+			this.close();
+			this.options.onConfirm();
+		});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+export interface TextPromptModalOptions {
+	title: string;
+	placeholder: string;
+	confirmText: string;
+	value?: string;
+	onSubmit: (value: string) => void;
+}
+
+export class TextPromptModal extends Modal {
+	constructor(app: App, private options: TextPromptModalOptions) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+
+		contentEl.createEl("h2", { text: this.options.title });
+
+		const input = contentEl.createEl("input", {
+			type: "text",
+			cls: "auto-git-prompt-input",
+			attr: { placeholder: this.options.placeholder },
+		});
+		input.value = this.options.value ?? "";
+
+		const submit = () => {
+			const value = input.value.trim();
+			if (!value) return;
+			this.close();
+			this.options.onSubmit(value);
+		};
+		input.addEventListener("keydown", (evt) => {
+			if (evt.key === "Enter") {
+				evt.preventDefault();
+				submit();
+			}
+		});
+
+		const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+
+		buttonContainer.createEl("button", { text: t().revertCancelButton }).addEventListener("click", () => {
+			this.close();
+		});
+
+		buttonContainer.createEl("button", { text: this.options.confirmText, cls: "mod-cta" })
+			.addEventListener("click", submit);
+
+		input.focus();
+		input.select();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+export type UncommittedChoice = "commit" | "stash";
+
+/** Asks what to do with uncommitted changes before switching branches */
+export class UncommittedChangesModal extends Modal {
+	constructor(app: App, private files: string[], private onChoose: (choice: UncommittedChoice) => void) {
+		super(app);
+	}
+
+	onOpen() {
+		const i18n = t();
+		const { contentEl } = this;
+
+		contentEl.createEl("h2", { text: i18n.branchUncommittedTitle });
+		contentEl.createEl("p", { text: i18n.branchUncommittedDesc(this.files.length) });
+
+		const listEl = contentEl.createEl("ul", { cls: "revert-file-list" });
+		this.files.forEach((file) => listEl.createEl("li", { text: file }));
+
+		const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+
+		buttonContainer.createEl("button", { text: i18n.revertCancelButton }).addEventListener("click", () => {
+			this.close();
+		});
+
+		buttonContainer.createEl("button", { text: i18n.branchStashAndSwitch }).addEventListener("click", () => {
+			this.close();
+			this.onChoose("stash");
+		});
+
+		buttonContainer.createEl("button", { text: i18n.branchCommitAndSwitch, cls: "mod-cta" }).addEventListener("click", () => {
+			this.close();
+			this.onChoose("commit");
+		});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+export function formatFileSize(bytes: number): string {
+	if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export interface LargeFilesModalOptions {
+	files: LargeFile[];
+	policy: LargeFilePolicy;
+	limitMB: number;
+	/** The lfs policy was requested but git-lfs is not installed */
+	lfsMissing: boolean;
+	/** Called once: true to go ahead with the commit, false when cancelled or blocked */
+	onChoose: (proceed: boolean) => void;
+}
+
+/** Lists files over the size limit before a manual commit and what the policy will do with them */
+export class LargeFilesModal extends Modal {
+	private chosen = false;
+
+	constructor(app: App, private options: LargeFilesModalOptions) {
+		super(app);
+	}
+
+	onOpen() {
+		const i18n = t();
+		const { contentEl } = this;
+		const { files, policy, limitMB, lfsMissing } = this.options;
+
+		contentEl.createEl("h2", { text: i18n.largeFilesTitle });
+		contentEl.createEl("p", { text: i18n.largeFilesDesc(policy, limitMB) });
+
+		const listEl = contentEl.createEl("ul", { cls: "revert-file-list" });
+		files.forEach((file) => listEl.createEl("li", { text: `${file.path} (${formatFileSize(file.size)})` }));
+
+		if (lfsMissing) {
+			contentEl.createEl("p", { text: i18n.largeFilesLfsMissing, cls: "auto-git-warning" });
+		}
+
+		const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+
+		if (policy === "block") {
+			buttonContainer.createEl("button", { text: i18n.largeFilesCloseButton, cls: "mod-cta" }).addEventListener("click", () => {
+				this.close();
+			});
+			return;
+		}
+
+		buttonContainer.createEl("button", { text: i18n.revertCancelButton }).addEventListener("click", () => {
+			this.close();
+		});
+
+		buttonContainer.createEl("button", { text: i18n.largeFilesCommitButton(policy), cls: "mod-cta" }).addEventListener("click", () => {
+			this.choose(true);
+			this.close();
+		});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.choose(false);
+	}
+
+	private choose(proceed: boolean) {
+		if (this.chosen) return;
+		this.chosen = true;
+		this.options.onChoose(proceed);
+	}
+}
+
+export interface SecretsModalOptions {
+	findings: SecretFinding[];
+	policy: Exclude<SecretScanPolicy, "off">;
+	onOpenFinding: (finding: SecretFinding) => void;
+	onAllow: (finding: SecretFinding) => void;
+	/** Called once with the findings still standing, or null when the commit should not happen */
+	onChoose: (remaining: SecretFinding[] | null) => void;
+}
+
+/** Possible secrets in a manual commit, with links to the lines and an allowlist shortcut */
+export class SecretsModal extends Modal {
+	private remaining: SecretFinding[];
+	private chosen = false;
+
+	constructor(app: App, private options: SecretsModalOptions) {
+		super(app);
+		this.remaining = [...options.findings];
+	}
+
+	onOpen() {
+		this.render();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.choose(null);
+	}
+
+	private render() {
+		const i18n = t();
+		const { contentEl } = this;
+		const { policy } = this.options;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: i18n.secretsTitle });
+		contentEl.createEl("p", { text: this.remaining.length > 0 ? i18n.secretsDesc(policy) : i18n.secretsAllAllowed });
+
+		const listEl = contentEl.createEl("ul", { cls: "revert-file-list auto-git-secret-list" });
+		this.remaining.forEach((finding) => {
+			const itemEl = listEl.createEl("li");
+			itemEl.createSpan({ text: `${finding.path}:${finding.line} · ${finding.rule} · ` });
+			itemEl.createEl("code", { text: maskSecret(finding.value) });
+
+			const openLink = itemEl.createEl("a", { text: i18n.secretsOpenLink, cls: "revert-file-diff", href: "#" });
+			openLink.addEventListener("click", (evt) => {
+				evt.preventDefault();
+				this.close();
+				this.options.onOpenFinding(finding);
+			});
+
+			const allowLink = itemEl.createEl("a", { text: i18n.secretsAllowLink, cls: "revert-file-diff", href: "#" });
+			allowLink.addEventListener("click", (evt) => {
+				evt.preventDefault();
+				this.options.onAllow(finding);
+				this.remaining = this.remaining.filter((f) => f.value !== finding.value);
+				this.render();
+			});
+		});
+
+		const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+
+		buttonContainer.createEl("button", { text: i18n.revertCancelButton }).addEventListener("click", () => {
+			this.close();
+		});
+
+		// Blocked commits can still go ahead once every finding is allowlisted
+		if (policy === "quarantine" || this.remaining.length === 0) {
+			const text = this.remaining.length > 0 ? i18n.secretsCommitButton : i18n.secretsCommitAllButton;
+			buttonContainer.createEl("button", { text, cls: "mod-cta" }).addEventListener("click", () => {
+				this.choose(this.remaining);
+				this.close();
+			});
+		}
+	}
+
+	private choose(remaining: SecretFinding[] | null) {
+		if (this.chosen) return;
+		this.chosen = true;
+		this.options.onChoose(remaining);
+	}
+}
@@ -1,15 +1,33 @@
 import { Notice } from "obsidian";
+import { t } from "./i18n";
 
 /** Notice with loading spinner that transitions to success/fail state */
 export class ProgressNotice {
 	private notice: Notice;
+	private cancelEl: HTMLElement | null = null;
 
-	constructor(message: string) {
+	/** Passing onCancel adds a cancel button next to the spinner */
+	constructor(message: string, onCancel?: () => void) {
 		this.notice = new Notice(message, 0);
 		this.notice.messageEl.parentElement?.addClass("is-loading");
+
+		const container = this.notice.messageEl.parentElement;
+		if (onCancel && container) {
+			this.cancelEl = container.createEl("button", {
+				text: t().cancelButton,
+				cls: "auto-git-notice-cancel",
+			});
+			this.cancelEl.addEventListener("click", (evt) => {
+				// Clicking a notice dismisses it; keep it until the operation reports back
+				evt.stopPropagation();
+				this.removeCancel();
+				onCancel();
+			});
+		}
 	}
 
 	succeed(message: string, timeout = 3000) {
+		this.removeCancel();
 		const el = this.notice.messageEl.parentElement;
 		el?.removeClass("is-loading");
 		el?.addClass("mod-success");
@@ -18,8 +36,21 @@ export class ProgressNotice {
 	}
 
 	fail(message: string, timeout = 5000) {
+		this.removeCancel();
 		this.notice.messageEl.parentElement?.removeClass("is-loading");
 		this.notice.setMessage(message);
 		window.setTimeout(() => this.notice.hide(), timeout);
 	}
+
+	cancelled(timeout = 3000) {
+		this.removeCancel();
+		this.notice.messageEl.parentElement?.removeClass("is-loading");
+		this.notice.setMessage(t().noticeCancelled);
+		window.setTimeout(() => this.notice.hide(), timeout);
+	}
+
+	private removeCancel() {
+		this.cancelEl?.remove();
+		this.cancelEl = null;
+	}
 }
@@ -0,0 +1,141 @@
+import { GitError } from "./git";
+
+/** Kept per device in local storage, so unpushed commits survive a restart */
+export interface PushQueueState {
+	/** When a push first failed to deliver the local commits (ms), or null when nothing waits */
+	pendingSince: number | null;
+	/** Failed attempts since then; drives the backoff */
+	attempts: number;
+	/** HEAD the detached push on close was started for; checked against the upstream at the next start */
+	closePushCommit: string | null;
+}
+
+export interface PushQueueOptions {
+	load: () => Partial<PushQueueState> | null;
+	save: (state: PushQueueState) => void;
+	/** Push through the plugin's git operation queue; throws on failure */
+	push: () => Promise<void>;
+	/** A retry delivered the pending commits */
+	onDelivered: () => void;
+	/** A retry failed in a way waiting won't fix; the queue is dropped */
+	onGaveUp: (error: unknown) => void;
+	/** Pending state or the next retry time changed */
+	onChange: () => void;
+}
+
+// 30 s, 1 min, 2 min, ... up to 30 min between retries
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+// Only these may pass by themselves; auth failures and rejected pushes need the user
+function isTransient(error: unknown): boolean {
+	return error instanceof GitError && (error.kind === "network-unreachable" || error.kind === "timeout");
+}
+
+/** Remembers that local commits are unpushed and retries delivering them with exponential backoff */
+export class PushQueue {
+	private state: PushQueueState;
+	private retryTimer: number | null = null;
+	private retrying = false;
+	private _nextRetry: Date | null = null;
+
+	constructor(private opts: PushQueueOptions) {
+		const saved = opts.load();
+		this.state = {
+			pendingSince: saved?.pendingSince ?? null,
+			attempts: saved?.attempts ?? 0,
+			closePushCommit: saved?.closePushCommit ?? null,
+		};
+	}
+
+	get pending(): boolean {
+		return this.state.pendingSince !== null;
+	}
+
+	get nextRetry(): Date | null {
+		return this._nextRetry;
+	}
+
+	/** A push failed: queue the commits if the failure may pass. Returns whether they were queued */
+	failed(error: unknown): boolean {
+		if (!isTransient(error)) {
+			// Surfaced by the caller; retrying would only repeat it
+			this.clear();
+			return false;
+		}
+		this.update({ pendingSince: this.state.pendingSince ?? Date.now(), attempts: this.state.attempts + 1 });
+		this.schedule();
+		return true;
+	}
+
+	/** Commits are known to be unpushed, with no failure to go by (the push on close) */
+	enqueue(): void {
+		if (!this.pending) this.update({ pendingSince: Date.now(), attempts: 0 });
+		this.opts.onChange();
+	}
+
+	/** A push went through: everything local is on the remote now */
+	succeeded(): void {
+		this.clear();
+	}
+
+	/** Try delivering right away, e.g. when the network comes back */
+	async retry(): Promise<void> {
+		if (!this.pending || this.retrying) return;
+		this.retrying = true;
+		this.clearTimer();
+		try {
+			await this.opts.push();
+			this.succeeded();
+			this.opts.onDelivered();
+		} catch (e) {
+			if (!this.failed(e)) this.opts.onGaveUp(e);
+		} finally {
+			this.retrying = false;
+		}
+	}
+
+	/** Called right before the detached push on close; settled by takeClosePush at the next start */
+	recordClosePush(commit: string): void {
+		this.update({ closePushCommit: commit });
+	}
+
+	takeClosePush(): string | null {
+		const commit = this.state.closePushCommit;
+		if (commit !== null) this.update({ closePushCommit: null });
+		return commit;
+	}
+
+	stop(): void {
+		this.clearTimer();
+	}
+
+	private clear(): void {
+		this.clearTimer();
+		if (this.pending) this.update({ pendingSince: null, attempts: 0 });
+		this.opts.onChange();
+	}
+
+	private schedule(): void {
+		this.clearTimer();
+		const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(this.state.attempts - 1, 0), MAX_RETRY_DELAY_MS);
+		this._nextRetry = new Date(Date.now() + delay);
+		this.retryTimer = window.setTimeout(() => {
+			this.retryTimer = null;
+			this._nextRetry = null;
+			void this.retry();
+		}, delay);
+		this.opts.onChange();
+	}
+
+	private clearTimer(): void {
+		if (this.retryTimer !== null) window.clearTimeout(this.retryTimer);
+		this.retryTimer = null;
+		this._nextRetry = null;
+	}
+
+	private update(changes: Partial<PushQueueState>): void {
+		this.state = { ...this.state, ...changes };
+		this.opts.save(this.state);
+	}
+}
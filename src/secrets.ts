@@ -0,0 +1,80 @@
+import type { AddedLine } from "./git";
+import { parsePatternList } from "./ignore";
+
+export interface SecretRule {
+	name: string;
+	regex: RegExp;
+}
+
+/** Where a secret was found; value is the matched secret itself, used for the allowlist */
+export interface SecretFinding {
+	path: string;
+	line: number;
+	rule: string;
+	value: string;
+}
+
+// Provider token formats first; the generic assignment rule only catches what they miss
+const BUILTIN_RULES: SecretRule[] = [
+	{ name: "Private key", regex: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/ },
+	{ name: "AWS access key", regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+	{ name: "GitHub token", regex: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/ },
+	{ name: "GitLab token", regex: /\bglpat-[A-Za-z0-9_-]{20,}/ },
+	{ name: "Slack token", regex: /\bxox[abposr]-[A-Za-z0-9-]{10,}/ },
+	{ name: "Stripe key", regex: /\b[rs]k_live_[A-Za-z0-9]{20,}\b/ },
+	{ name: "Google API key", regex: /\bAIza[0-9A-Za-z_-]{35}/ },
+	{ name: "OpenAI / Anthropic API key", regex: /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/ },
+	{ name: "Password or key assignment", regex: /\b(?:password|passwd|secret|api[_-]?key|access[_-]?token|auth[_-]?token|client[_-]?secret)\s*[:=]\s*["']?([^\s"'`]{8,})/i },
+];
+
+/** Built-in rules plus the user's regexes (one per line, # comments); invalid regexes are skipped */
+export function compileSecretRules(userPatterns: string[]): SecretRule[] {
+	const custom: SecretRule[] = [];
+	parsePatternList(userPatterns).forEach((pattern) => {
+		try {
+			custom.push({ name: pattern, regex: new RegExp(pattern) });
+		} catch {
+			// Reported in settings; scanning goes on with the valid rules
+		}
+	});
+	return [...BUILTIN_RULES, ...custom];
+}
+
+export function invalidSecretPatterns(userPatterns: string[]): string[] {
+	return parsePatternList(userPatterns).filter((pattern) => {
+		try {
+			new RegExp(pattern);
+			return false;
+		} catch {
+			return true;
+		}
+	});
+}
+
+/** Look for secrets in the lines a commit would add; allowlisted values are ignored */
+export function scanForSecrets(added: Map<string, AddedLine[]>, rules: SecretRule[], allowlist: string[]): SecretFinding[] {
+	const allowed = new Set(parsePatternList(allowlist));
+	const findings: SecretFinding[] = [];
+
+	added.forEach((lines, filePath) => {
+		lines.forEach(({ line, text }) => {
+			for (const rule of rules) {
+				const match = rule.regex.exec(text);
+				if (!match) continue;
+				// Rules with a capture group mark the secret part of a longer match
+				const value = match[1] ?? match[0];
+				if (allowed.has(value)) continue;
+				findings.push({ path: filePath, line, rule: rule.name, value });
+				// One finding per line is enough to point at it
+				break;
+			}
+		});
+	});
+	return findings;
+}
+
+/** Enough of the secret to recognize it without showing it in full */
+export function maskSecret(value: string): string {
+	if (value.length <= 8) return "*".repeat(value.length);
+	return `${value.slice(0, 4)}${"*".repeat(Math.min(value.length - 4, 12))}`;
+}
@@ -1,20 +1,51 @@
 import { App, Notice, Platform, PluginSettingTab, Setting } from "obsidian";
 import type AutoGitPlugin from "./main";
-import { t } from "./i18n";
-import { isGitRepo, initRepo, getRemoteUrl, setRemoteUrl, hasConflicts, markConflictsResolved, detectRepoState, RepoState, connectToRemote, initAndPush, setUpstream, setGitDebug } from "./git";
+import { describeError, t } from "./i18n";
+import { isGitRepo, initRepo, getRemoteUrl, setRemoteUrl, hasConflicts, detectRepoState, RepoState, PullStrategy, connectToRemote, initAndPush, setUpstream, setGitDebug, ensureGitignoreEntries, getGitIdentity, SigningFormat, checkSigning, ChangedFile } from "./git";
+import { parsePatternList } from "./ignore";
+import { invalidSecretPatterns } from "./secrets";
+import { CONFIG_CATEGORIES, ConfigSyncSettings, DEFAULT_CONFIG_SYNC } from "./configSync";
+
+export type CommitMode = "debounce" | "interval";
+
+export type LargeFilePolicy = "skip" | "block" | "lfs";
+
+export type SecretScanPolicy = "off" | "block" | "quarantine";
 
 export interface AutoGitSettings {
 	autoCommit: boolean;
+	commitMode: CommitMode;
 	debounceSeconds: number;
+	maxWaitSeconds: number; // 0 = no cap
+	commitIntervalMinutes: number;
 	commitTemplate: string;
 	includeFileList: boolean;
+	fileListLimit: number;
+	authorName: string; // empty = git config
+	authorEmail: string;
+	signingFormat: SigningFormat;
+	signingKey: string;
 	autoPush: boolean;
 	syncRemotelySaveAfterCommit: boolean;
 	autoPullOnOpen: boolean;
+	pullStrategy: PullStrategy;
+	autoStash: boolean;
+	fetchIntervalMinutes: number; // 0 = disabled
+	autoPullAfterFetch: boolean;
 	commitOnClose: boolean;
 	gitPath: string;
-	ignoreObsidianDir: boolean;
+	networkTimeoutSeconds: number; // whole operation, 0 = no limit
+	stallTimeoutSeconds: number; // stalled HTTPS transfer, 0 = no limit
+	configSync: ConfigSyncSettings;
+	excludePatterns: string[];
+	largeFileLimitMB: number; // 0 = no limit
+	largeFilePolicy: LargeFilePolicy;
+	secretScanPolicy: SecretScanPolicy;
+	secretPatterns: string[];
+	secretAllowlist: string[];
 	showStatusBadge: boolean;
+	showStatusBar: boolean;
+	showChangeGutter: boolean;
 	showRibbonButton: boolean;
 	badgeRefreshInterval: number; // 0 = disabled, otherwise seconds
 	debugLog: boolean;
@@ -22,21 +53,54 @@ export interface AutoGitSettings {
 
 export const DEFAULT_SETTINGS: AutoGitSettings = {
 	autoCommit: false,
+	commitMode: "debounce",
 	debounceSeconds: 30,
+	maxWaitSeconds: 0,
+	commitIntervalMinutes: 10,
 	commitTemplate: "vault backup: {{date}} {{time}}",
 	includeFileList: true,
+	fileListLimit: 5,
+	authorName: "",
+	authorEmail: "",
+	signingFormat: "off",
+	signingKey: "",
 	autoPush: false,
 	syncRemotelySaveAfterCommit: false,
 	autoPullOnOpen: false,
+	pullStrategy: "merge",
+	autoStash: false,
+	fetchIntervalMinutes: 0,
+	autoPullAfterFetch: false,
 	commitOnClose: false,
 	gitPath: "git",
-	ignoreObsidianDir: true,
+	networkTimeoutSeconds: 600,
+	stallTimeoutSeconds: 60,
+	configSync: DEFAULT_CONFIG_SYNC,
+	excludePatterns: [],
+	largeFileLimitMB: 50,
+	largeFilePolicy: "skip",
+	secretScanPolicy: "quarantine",
+	secretPatterns: [],
+	secretAllowlist: [],
 	showStatusBadge: true,
+	showStatusBar: true,
+	showChangeGutter: true,
 	showRibbonButton: true,
 	badgeRefreshInterval: 0, // 0 = disabled (event-driven only), otherwise seconds
 	debugLog: false,
 };
 
+// Stand-in changes for the template preview
+const PREVIEW_FILES: ChangedFile[] = [
+	{ path: "Daily/2024-06-01.md", status: "A" },
+	{ path: "Daily/2024-05-31.md", status: "M" },
+	{ path: "Projects/Roadmap.md", status: "M" },
+	{ path: "Projects/Archive/Old plan.md", status: "R", origPath: "Projects/Old plan.md" },
+	{ path: "Inbox.md", status: "M" },
+	{ path: "Scratch.md", status: "D" },
+	{ path: "Attachments/diagram.png", status: "A" },
+];
+
 export class AutoGitSettingTab extends PluginSettingTab {
 	plugin: AutoGitPlugin;
 
@@ -78,6 +142,58 @@ export class AutoGitSettingTab extends PluginSettingTab {
 				})
 			);
 
+		new Setting(containerEl)
+			.setName(i18n.pullStrategyName)
+			.setDesc(i18n.pullStrategyDesc)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("merge", i18n.pullStrategyMerge)
+					.addOption("rebase", i18n.pullStrategyRebase)
+					.addOption("ff-only", i18n.pullStrategyFfOnly)
+					.setValue(this.plugin.settings.pullStrategy)
+					.onChange(async (value) => {
+						this.plugin.settings.pullStrategy = value as PullStrategy;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(i18n.autoStashName)
+			.setDesc(i18n.autoStashDesc)
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.autoStash).onChange(async (value) => {
+					this.plugin.settings.autoStash = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName(i18n.fetchIntervalName)
+			.setDesc(i18n.fetchIntervalDesc)
+			.addText((text) =>
+				text
+					.setPlaceholder("0")
+					.setValue(String(this.plugin.settings.fetchIntervalMinutes))
+					.onChange(async (value) => {
+						const num = parseInt(value);
+						if (!isNaN(num) && num >= 0) {
+							this.plugin.settings.fetchIntervalMinutes = num;
+							await this.plugin.saveSettings();
+							this.plugin.updateFetchInterval();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(i18n.autoPullAfterFetchName)
+			.setDesc(i18n.autoPullAfterFetchDesc)
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.autoPullAfterFetch).onChange(async (value) => {
+					this.plugin.settings.autoPullAfterFetch = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
 		new Setting(containerEl)
 			.setName(i18n.commitOnCloseName)
 			.setDesc(i18n.commitOnCloseDesc)
@@ -99,6 +215,8 @@ export class AutoGitSettingTab extends PluginSettingTab {
 					this.plugin.settings.autoCommit = value;
 					await this.plugin.saveSettings();
 					this.plugin.resetVaultListeners();
+					this.plugin.updateCommitInterval();
+					this.plugin.updateStatusBar();
 					autoCommitSettings.style.display = value ? "block" : "none";
 				})
 			);
@@ -107,7 +225,34 @@ export class AutoGitSettingTab extends PluginSettingTab {
 		autoCommitSettings = containerEl.createDiv();
 		autoCommitSettings.style.display = this.plugin.settings.autoCommit ? "block" : "none";
 
+		// Debounce and interval settings, swapped by the mode dropdown
+		let debounceSettings: HTMLDivElement;
+		let intervalSettings: HTMLDivElement;
+
 		new Setting(autoCommitSettings)
+			.setName(i18n.commitModeName)
+			.setDesc(i18n.commitModeDesc)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("debounce", i18n.commitModeDebounce)
+					.addOption("interval", i18n.commitModeInterval)
+					.setValue(this.plugin.settings.commitMode)
+					.onChange(async (value) => {
+						this.plugin.settings.commitMode = value as CommitMode;
+						await this.plugin.saveSettings();
+						this.plugin.resetVaultListeners();
+						this.plugin.updateCommitInterval();
+						debounceSettings.style.display = value === "debounce" ? "block" : "none";
+						intervalSettings.style.display = value === "interval" ? "block" : "none";
+					})
+			);
+
+		debounceSettings = autoCommitSettings.createDiv();
+		debounceSettings.style.display = this.plugin.settings.commitMode === "debounce" ? "block" : "none";
+		intervalSettings = autoCommitSettings.createDiv();
+		intervalSettings.style.display = this.plugin.settings.commitMode === "interval" ? "block" : "none";
+
+		new Setting(debounceSettings)
 			.setName(i18n.debounceName)
 			.setDesc(i18n.debounceDesc)
 			.addText((text) =>
@@ -123,6 +268,39 @@ export class AutoGitSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(debounceSettings)
+			.setName(i18n.maxWaitName)
+			.setDesc(i18n.maxWaitDesc)
+			.addText((text) =>
+				text
+					.setPlaceholder("0")
+					.setValue(String(this.plugin.settings.maxWaitSeconds))
+					.onChange(async (value) => {
+						const num = parseInt(value);
+						if (!isNaN(num) && num >= 0) {
+							this.plugin.settings.maxWaitSeconds = num;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
+		new Setting(intervalSettings)
+			.setName(i18n.commitIntervalName)
+			.setDesc(i18n.commitIntervalDesc)
+			.addText((text) =>
+				text
+					.setPlaceholder("10")
+					.setValue(String(this.plugin.settings.commitIntervalMinutes))
+					.onChange(async (value) => {
+						const num = parseInt(value);
+						if (!isNaN(num) && num >= 1) {
+							this.plugin.settings.commitIntervalMinutes = num;
+							await this.plugin.saveSettings();
+							this.plugin.updateCommitInterval();
+						}
+					})
+			);
+
 		new Setting(autoCommitSettings)
 			.setName(i18n.autoPushName)
 			.setDesc(i18n.autoPushDesc)
@@ -156,9 +334,18 @@ export class AutoGitSettingTab extends PluginSettingTab {
 					.onChange(async (value) => {
 						this.plugin.settings.commitTemplate = value;
 						await this.plugin.saveSettings();
+						updatePreview();
 					})
 			);
 
+		const previewEl = containerEl.createDiv({ cls: "auto-git-template-preview" });
+		const updatePreview = () => {
+			previewEl.empty();
+			previewEl.createDiv({ cls: "auto-git-template-preview-label", text: i18n.templatePreviewLabel });
+			previewEl.createEl("pre", { text: this.plugin.buildCommitMessage(PREVIEW_FILES, "main") });
+		};
+		updatePreview();
+
 		new Setting(containerEl)
 			.setName(i18n.includeFileListName)
 			.setDesc(i18n.includeFileListDesc)
@@ -166,9 +353,125 @@ export class AutoGitSettingTab extends PluginSettingTab {
 				toggle.setValue(this.plugin.settings.includeFileList).onChange(async (value) => {
 					this.plugin.settings.includeFileList = value;
 					await this.plugin.saveSettings();
+					updatePreview();
 				})
 			);
 
+		new Setting(containerEl)
+			.setName(i18n.fileListLimitName)
+			.setDesc(i18n.fileListLimitDesc)
+			.addText((text) =>
+				text
+					.setPlaceholder("5")
+					.setValue(String(this.plugin.settings.fileListLimit))
+					.onChange(async (value) => {
+						const num = parseInt(value);
+						if (!isNaN(num) && num >= 1) {
+							this.plugin.settings.fileListLimit = num;
+							await this.plugin.saveSettings();
+							updatePreview();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(i18n.commitAuthorName)
+			.setDesc(i18n.commitAuthorDesc)
+			.addText((text) =>
+				text
+					.setPlaceholder(i18n.authorNamePlaceholder)
+					.setValue(this.plugin.settings.authorName)
+					.onChange(async (value) => {
+						this.plugin.settings.authorName = value.trim();
+						await this.plugin.saveSettings();
+						this.plugin.applyIdentity();
+					})
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(i18n.authorEmailPlaceholder)
+					.setValue(this.plugin.settings.authorEmail)
+					.onChange(async (value) => {
+						this.plugin.settings.authorEmail = value.trim();
+						await this.plugin.saveSettings();
+						this.plugin.applyIdentity();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(i18n.deviceAuthorName)
+			.setDesc(i18n.deviceAuthorDesc)
+			.addText((text) =>
+				text
+					.setPlaceholder(i18n.authorNamePlaceholder)
+					.setValue(this.plugin.deviceIdentity.name)
+					.onChange((value) => {
+						this.plugin.deviceIdentity.name = value.trim();
+						this.plugin.saveDeviceIdentity();
+					})
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(i18n.authorEmailPlaceholder)
+					.setValue(this.plugin.deviceIdentity.email)
+					.onChange((value) => {
+						this.plugin.deviceIdentity.email = value.trim();
+						this.plugin.saveDeviceIdentity();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(i18n.signingFormatName)
+			.setDesc(i18n.signingFormatDesc)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("off", i18n.signingFormatOff)
+					.addOption("gpg", i18n.signingFormatGpg)
+					.addOption("ssh", i18n.signingFormatSsh)
+					.setValue(this.plugin.settings.signingFormat)
+					.onChange(async (value) => {
+						this.plugin.settings.signingFormat = value as SigningFormat;
+						await this.plugin.saveSettings();
+						this.plugin.applySigning();
+						this.display();
+					})
+			);
+
+		if (this.plugin.settings.signingFormat !== "off") {
+			const ssh = this.plugin.settings.signingFormat === "ssh";
+			new Setting(containerEl)
+				.setName(ssh ? i18n.signingKeySshName : i18n.signingKeyGpgName)
+				.setDesc(ssh ? i18n.signingKeySshDesc : i18n.signingKeyGpgDesc)
+				.addText((text) =>
+					text
+						.setPlaceholder(ssh ? "~/.ssh/id_ed25519.pub" : "3AA5C34371567BD2")
+						.setValue(this.plugin.settings.signingKey)
+						.onChange(async (value) => {
+							this.plugin.settings.signingKey = value.trim();
+							await this.plugin.saveSettings();
+							this.plugin.applySigning();
+						})
+				);
+
+			if (!Platform.isMobileApp) {
+				new Setting(containerEl)
+					.setName(i18n.signingTestName)
+					.setDesc(i18n.signingTestDesc)
+					.addButton((btn) =>
+						btn.setButtonText(i18n.signingTestButton).onClick(async () => {
+							const cwd = this.plugin.getVaultPathSafe();
+							if (!cwd) return;
+							try {
+								await this.plugin.gitQueue.run(() => checkSigning(cwd, this.plugin.settings.gitPath), { priority: "user" });
+								new Notice(i18n.noticeSigningWorks);
+							} catch (e) {
+								new Notice(i18n.noticeSigningFailed(describeError(e)), 10000);
+							}
+						})
+					);
+			}
+		}
+
 		new Setting(containerEl)
 			.setName(i18n.showStatusBadgeName)
 			.setDesc(i18n.showStatusBadgeDesc)
@@ -180,6 +483,30 @@ export class AutoGitSettingTab extends PluginSettingTab {
 				})
 			);
 
+		if (!Platform.isMobileApp) {
+			new Setting(containerEl)
+				.setName(i18n.showStatusBarName)
+				.setDesc(i18n.showStatusBarDesc)
+				.addToggle((toggle) =>
+					toggle.setValue(this.plugin.settings.showStatusBar).onChange(async (value) => {
+						this.plugin.settings.showStatusBar = value;
+						await this.plugin.saveSettings();
+						this.plugin.updateStatusBar();
+					})
+				);
+
+			new Setting(containerEl)
+				.setName(i18n.showChangeGutterName)
+				.setDesc(i18n.showChangeGutterDesc)
+				.addToggle((toggle) =>
+					toggle.setValue(this.plugin.settings.showChangeGutter).onChange(async (value) => {
+						this.plugin.settings.showChangeGutter = value;
+						await this.plugin.saveSettings();
+						this.plugin.updateChangeGutter();
+					})
+				);
+		}
+
 		new Setting(containerEl)
 			.setName(i18n.badgeRefreshIntervalName)
 			.setDesc(i18n.badgeRefreshIntervalDesc)
@@ -222,15 +549,171 @@ export class AutoGitSettingTab extends PluginSettingTab {
 			);
 
 		new Setting(containerEl)
-			.setName(i18n.ignoreObsidianName)
-			.setDesc(i18n.ignoreObsidianDesc)
-			.addToggle((toggle) =>
-				toggle.setValue(this.plugin.settings.ignoreObsidianDir).onChange(async (value) => {
-					this.plugin.settings.ignoreObsidianDir = value;
-					await this.plugin.saveSettings();
-				})
+			.setName(i18n.networkTimeoutName)
+			.setDesc(i18n.networkTimeoutDesc)
+			.addText((text) =>
+				text
+					.setPlaceholder("600")
+					.setValue(String(this.plugin.settings.networkTimeoutSeconds))
+					.onChange(async (value) => {
+						const num = parseInt(value);
+						if (!isNaN(num) && num >= 0) {
+							this.plugin.settings.networkTimeoutSeconds = num;
+							await this.plugin.saveSettings();
+						}
+					})
 			);
 
+		new Setting(containerEl)
+			.setName(i18n.stallTimeoutName)
+			.setDesc(i18n.stallTimeoutDesc)
+			.addText((text) =>
+				text
+					.setPlaceholder("60")
+					.setValue(String(this.plugin.settings.stallTimeoutSeconds))
+					.onChange(async (value) => {
+						const num = parseInt(value);
+						if (!isNaN(num) && num >= 0) {
+							this.plugin.settings.stallTimeoutSeconds = num;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(i18n.configSyncName)
+			.setDesc(i18n.configSyncDesc(this.app.vault.configDir));
+
+		const configSyncContainer = containerEl.createDiv({ cls: "auto-git-config-sync" });
+		CONFIG_CATEGORIES.forEach((category) => {
+			new Setting(configSyncContainer)
+				.setName(i18n.configCategoryNames[category])
+				.addToggle((toggle) =>
+					toggle.setValue(this.plugin.settings.configSync[category]).onChange(async (value) => {
+						this.plugin.settings.configSync = { ...this.plugin.settings.configSync, [category]: value };
+						await this.plugin.saveSettings();
+						await this.plugin.applyConfigSync();
+					})
+				);
+		});
+
+		new Setting(containerEl)
+			.setName(i18n.excludePatternsName)
+			.setDesc(i18n.excludePatternsDesc)
+			.addTextArea((text) => {
+				text
+					.setPlaceholder("Scratch/**\n*.excalidraw.md")
+					.setValue(this.plugin.settings.excludePatterns.join("\n"))
+					.onChange(async (value) => {
+						// Keep comments and blank lines as typed; they are skipped when matching
+						this.plugin.settings.excludePatterns = value.split(/\r?\n/);
+						await this.plugin.saveSettings();
+						this.plugin.updateExcludePatterns();
+						this.plugin.updateStatusBadges();
+					});
+				text.inputEl.rows = 4;
+			});
+
+		if (!Platform.isMobileApp) {
+			new Setting(containerEl)
+				.setName(i18n.syncGitignoreName)
+				.setDesc(i18n.syncGitignoreDesc)
+				.addButton((btn) =>
+					btn.setButtonText(i18n.syncGitignoreButton).onClick(async () => {
+						const cwd = this.plugin.getVaultPathSafe();
+						const patterns = parsePatternList(this.plugin.settings.excludePatterns);
+						if (!cwd || patterns.length === 0) return;
+						try {
+							const added = await this.plugin.gitQueue.run(() => ensureGitignoreEntries(cwd, patterns));
+							new Notice(i18n.noticeGitignoreSynced(added));
+							this.plugin.refreshGitStatus();
+						} catch (e) {
+							new Notice(describeError(e));
+						}
+					})
+				);
+		}
+
+		new Setting(containerEl)
+			.setName(i18n.largeFileLimitName)
+			.setDesc(i18n.largeFileLimitDesc)
+			.addText((text) =>
+				text
+					.setPlaceholder("50")
+					.setValue(String(this.plugin.settings.largeFileLimitMB))
+					.onChange(async (value) => {
+						const num = parseFloat(value);
+						if (!isNaN(num) && num >= 0) {
+							this.plugin.settings.largeFileLimitMB = num;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(i18n.largeFilePolicyName)
+			.setDesc(i18n.largeFilePolicyDesc)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("skip", i18n.largeFilePolicyNames.skip)
+					.addOption("block", i18n.largeFilePolicyNames.block)
+					.addOption("lfs", i18n.largeFilePolicyNames.lfs)
+					.setValue(this.plugin.settings.largeFilePolicy)
+					.onChange(async (value) => {
+						this.plugin.settings.largeFilePolicy = value as LargeFilePolicy;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(i18n.secretScanName)
+			.setDesc(i18n.secretScanDesc)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("block", i18n.secretScanPolicyNames.block)
+					.addOption("quarantine", i18n.secretScanPolicyNames.quarantine)
+					.addOption("off", i18n.secretScanPolicyNames.off)
+					.setValue(this.plugin.settings.secretScanPolicy)
+					.onChange(async (value) => {
+						this.plugin.settings.secretScanPolicy = value as SecretScanPolicy;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		const secretPatternsSetting = new Setting(containerEl)
+			.setName(i18n.secretPatternsName)
+			.setDesc(i18n.secretPatternsDesc);
+		const invalidEl = secretPatternsSetting.descEl.createDiv({ cls: "auto-git-warning" });
+		const showInvalid = () => {
+			const invalid = invalidSecretPatterns(this.plugin.settings.secretPatterns);
+			invalidEl.setText(invalid.length > 0 ? i18n.secretPatternsInvalid(invalid.join(", ")) : "");
+		};
+		showInvalid();
+		secretPatternsSetting.addTextArea((text) => {
+			text
+				.setPlaceholder("INTERNAL-[0-9]{6}")
+				.setValue(this.plugin.settings.secretPatterns.join("\n"))
+				.onChange(async (value) => {
+					this.plugin.settings.secretPatterns = value.split(/\r?\n/);
+					await this.plugin.saveSettings();
+					showInvalid();
+				});
+			text.inputEl.rows = 3;
+		});
+
+		new Setting(containerEl)
+			.setName(i18n.secretAllowlistName)
+			.setDesc(i18n.secretAllowlistDesc)
+			.addTextArea((text) => {
+				text
+					.setValue(this.plugin.settings.secretAllowlist.join("\n"))
+					.onChange(async (value) => {
+						this.plugin.settings.secretAllowlist = value.split(/\r?\n/);
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 3;
+			});
+
 		new Setting(containerEl)
 			.setName(i18n.debugLogName)
 			.setDesc(i18n.debugLogDesc)
@@ -252,12 +735,14 @@ export class AutoGitSettingTab extends PluginSettingTab {
 		}
 
 		const gitPath = this.plugin.settings.gitPath;
-		const state = await detectRepoState(cwd, gitPath);
+		const state = await this.plugin.gitQueue.run(() => detectRepoState(cwd, gitPath));
+		const identity = await this.plugin.gitQueue.run(() => getGitIdentity(cwd, gitPath));
+		const missingIdentity = !identity.name || !identity.email;
 
 		container.empty();
 
 		// Only show setup section if not ready
-		if (state === "ready") {
+		if (state === "ready" && !missingIdentity) {
 			return;
 		}
 
@@ -270,12 +755,49 @@ export class AutoGitSettingTab extends PluginSettingTab {
 			"local-only": i18n.setupLocalOnly,
 			"remote-no-upstream": i18n.setupNoUpstream,
 			"ready": i18n.setupReady,
+			...i18n.setupInterrupted,
 		};
 
-		new Setting(container)
+		const statusSetting = new Setting(container)
 			.setName(i18n.repoStatusName)
 			.setDesc(stateLabels[state]);
 
+		// Commits fail without an author, so ask before the first one
+		if (missingIdentity) {
+			let nameInput = identity.name;
+			let emailInput = identity.email;
+			const identitySetting = new Setting(container)
+				.setName(i18n.setupIdentityName)
+				.setDesc(i18n.setupIdentityDesc)
+				.addText((text) =>
+					text
+						.setPlaceholder(i18n.authorNamePlaceholder)
+						.setValue(nameInput)
+						.onChange((value) => {
+							nameInput = value.trim();
+						})
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder(i18n.authorEmailPlaceholder)
+						.setValue(emailInput)
+						.onChange((value) => {
+							emailInput = value.trim();
+						})
+				)
+				.addButton((btn) =>
+					btn.setButtonText(i18n.setupIdentityButton).setCta().onClick(async () => {
+						if (!nameInput || !emailInput) return;
+						this.plugin.settings.authorName = nameInput;
+						this.plugin.settings.authorEmail = emailInput;
+						await this.plugin.saveSettings();
+						this.plugin.applyIdentity();
+						this.display();
+					})
+				);
+			identitySetting.nameEl.addClass("auto-git-warning");
+		}
+
 		if (state === "not-a-repo" || state === "empty-repo") {
 			let connectRemoteInput = "";
 			let initPushRemoteInput = "";
@@ -295,13 +817,12 @@ export class AutoGitSettingTab extends PluginSettingTab {
 					btn.setButtonText(i18n.wizardConnectButton).onClick(async () => {
 						if (!connectRemoteInput) return;
 						try {
-							const ignoreDir = this.plugin.settings.ignoreObsidianDir ? this.app.vault.configDir : undefined;
-							await connectToRemote(cwd, gitPath, connectRemoteInput, ignoreDir);
+							await this.plugin.gitQueue.run(() => connectToRemote(cwd, gitPath, connectRemoteInput, this.plugin.configIgnore(), this.plugin.networkOptions()));
 							new Notice(i18n.noticeConnected);
 							this.display();
-							this.plugin.refreshStatusBadges();
+							this.plugin.refreshGitStatus();
 						} catch (e) {
-							new Notice(i18n.noticeConnectFailed((e as Error).message));
+							new Notice(i18n.noticeConnectFailed(describeError(e)));
 						}
 					})
 				);
@@ -321,13 +842,12 @@ export class AutoGitSettingTab extends PluginSettingTab {
 					btn.setButtonText(i18n.wizardInitAndPushButton).onClick(async () => {
 						if (!initPushRemoteInput) return;
 						try {
-							const ignoreDir = this.plugin.settings.ignoreObsidianDir ? this.app.vault.configDir : undefined;
-							await initAndPush(cwd, gitPath, initPushRemoteInput, "main", ignoreDir);
+							await this.plugin.gitQueue.run(() => initAndPush(cwd, gitPath, initPushRemoteInput, "main", this.plugin.configIgnore(), this.plugin.networkOptions()));
 							new Notice(i18n.noticeInitPushSuccess);
 							this.display();
-							this.plugin.refreshStatusBadges();
+							this.plugin.refreshGitStatus();
 						} catch (e) {
-							new Notice(i18n.noticeInitPushFailed((e as Error).message));
+							new Notice(i18n.noticeInitPushFailed(describeError(e)));
 						}
 					})
 				);
@@ -340,12 +860,11 @@ export class AutoGitSettingTab extends PluginSettingTab {
 					.addButton((btn) =>
 						btn.setButtonText(i18n.wizardLocalOnlyButton).onClick(async () => {
 							try {
-								const ignoreDir = this.plugin.settings.ignoreObsidianDir ? this.app.vault.configDir : undefined;
-								await initRepo(cwd, gitPath, ignoreDir);
+								await this.plugin.gitQueue.run(() => initRepo(cwd, gitPath, this.plugin.configIgnore()));
 								new Notice(i18n.noticeRepoInitialized);
 								this.display();
 							} catch (e) {
-								new Notice((e as Error).message);
+								new Notice(describeError(e));
 							}
 						})
 					);
@@ -368,15 +887,33 @@ export class AutoGitSettingTab extends PluginSettingTab {
 					btn.setButtonText(i18n.wizardSetUpstreamButton).onClick(async () => {
 						if (!remoteInput) return;
 						try {
-							await setRemoteUrl(cwd, gitPath, remoteInput);
-							await setUpstream(cwd, gitPath);
+							await this.plugin.gitQueue.run(() => setRemoteUrl(cwd, gitPath, remoteInput));
+							await this.plugin.gitQueue.run(() => setUpstream(cwd, gitPath, this.plugin.networkOptions()));
 							new Notice(i18n.noticeUpstreamSet);
 							this.display();
 						} catch (e) {
-							new Notice(i18n.noticeUpstreamFailed((e as Error).message));
+							new Notice(i18n.noticeUpstreamFailed(describeError(e)));
 						}
 					})
 				);
+		} else if (state === "detached") {
+			statusSetting.addButton((btn) =>
+				btn.setButtonText(i18n.setupSwitchBranchButton).setCta().onClick(() => void this.plugin.showBranchSwitcher())
+			);
+		} else if (state === "merging" || state === "rebasing" || state === "cherry-picking") {
+			statusSetting
+				.addButton((btn) =>
+					btn.setButtonText(i18n.continueOperationButton).setCta().onClick(async () => {
+						await this.plugin.continueInterrupted();
+						this.display();
+					})
+				)
+				.addButton((btn) =>
+					btn.setButtonText(i18n.abortOperationButton).setWarning().onClick(async () => {
+						await this.plugin.abortInterrupted();
+						this.display();
+					})
+				);
 		} else if (state === "remote-no-upstream") {
 			// Has remote but no upstream - offer to set upstream
 			new Setting(container)
@@ -385,11 +922,11 @@ export class AutoGitSettingTab extends PluginSettingTab {
 				.addButton((btn) =>
 					btn.setButtonText(i18n.wizardSetUpstreamButton).onClick(async () => {
 						try {
-							await setUpstream(cwd, gitPath);
+							await this.plugin.gitQueue.run(() => setUpstream(cwd, gitPath, this.plugin.networkOptions()));
 							new Notice(i18n.noticeUpstreamSet);
 							this.display();
 						} catch (e) {
-							new Notice(i18n.noticeUpstreamFailed((e as Error).message));
+							new Notice(i18n.noticeUpstreamFailed(describeError(e)));
 						}
 					})
 				);
@@ -405,11 +942,11 @@ export class AutoGitSettingTab extends PluginSettingTab {
 		}
 
 		const gitPath = this.plugin.settings.gitPath;
-		const [isRepo, currentRemote, hasConflict] = await Promise.all([
-			isGitRepo(cwd, gitPath),
-			getRemoteUrl(cwd, gitPath),
-			hasConflicts(cwd, gitPath),
-		]);
+		const [isRepo, currentRemote, hasConflict] = await this.plugin.gitQueue.run(async () => [
+			await isGitRepo(cwd, gitPath),
+			await getRemoteUrl(cwd, gitPath),
+			await hasConflicts(cwd, gitPath),
+		] as const);
 
 		container.empty();
 
@@ -420,12 +957,11 @@ export class AutoGitSettingTab extends PluginSettingTab {
 				.addButton((btn) =>
 					btn.setButtonText(i18n.initRepoButton).onClick(async () => {
 						try {
-							const ignoreDir = this.plugin.settings.ignoreObsidianDir ? this.app.vault.configDir : undefined;
-							await initRepo(cwd, gitPath, ignoreDir);
+							await this.plugin.gitQueue.run(() => initRepo(cwd, gitPath, this.plugin.configIgnore()));
 							new Notice(i18n.noticeRepoInitialized);
 							this.display();
 						} catch (e) {
-							new Notice((e as Error).message);
+							new Notice(describeError(e));
 						}
 					})
 				);
@@ -481,10 +1017,10 @@ export class AutoGitSettingTab extends PluginSettingTab {
 					btn.setButtonText(i18n.saveButton).onClick(async () => {
 						if (!remoteInput) return;
 						try {
-							await setRemoteUrl(cwd, gitPath, remoteInput);
+							await this.plugin.gitQueue.run(() => setRemoteUrl(cwd, gitPath, remoteInput));
 							new Notice(i18n.noticeRemoteSaved);
 						} catch (e) {
-							new Notice((e as Error).message);
+							new Notice(describeError(e));
 						}
 					})
 				);
@@ -494,19 +1030,16 @@ export class AutoGitSettingTab extends PluginSettingTab {
 				new Setting(container)
 					.setName(i18n.conflictStatusName)
 					.setDesc(i18n.conflictStatusDesc)
+					.addButton((btn) =>
+						btn.setButtonText(i18n.openConflictsButton).onClick(() => void this.plugin.openConflictModal())
+					)
 					.addButton((btn) =>
 						btn
 							.setButtonText(i18n.resolveConflictButton)
 							.setWarning()
 							.onClick(async () => {
-								try {
-									await markConflictsResolved(cwd, gitPath);
-									this.plugin.setHasConflicts(false);
-									new Notice(i18n.noticeConflictResolved);
-									this.display();
-								} catch (e) {
-									new Notice((e as Error).message);
-								}
+								await this.plugin.resolveAllConflicts();
+								this.display();
 							})
 					);
 			}
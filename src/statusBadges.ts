@@ -4,6 +4,8 @@ export interface StatusBadgeOptions {
 	getCwd: () => string | null;
 	getGitPath: () => string;
 	shouldIgnore: (path: string) => boolean;
+	/** Runs the refresh through the plugin's git operation queue */
+	runQueued: <T>(task: () => Promise<T>) => Promise<T>;
 }
 
 export class GitStatusBadgeManager {
@@ -133,10 +135,10 @@ export class GitStatusBadgeManager {
 		if (!cwd) return;
 
 		try {
-			const [statuses, tracked] = await Promise.all([
-				getFileStatuses(cwd, this.opts.getGitPath()),
-				getTrackedFiles(cwd, this.opts.getGitPath()),
-			]);
+			const [statuses, tracked] = await this.opts.runQueued(async () => [
+				await getFileStatuses(cwd, this.opts.getGitPath()),
+				await getTrackedFiles(cwd, this.opts.getGitPath()),
+			] as const);
 
 			if (!this.enabled) return;
 
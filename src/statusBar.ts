@@ -0,0 +1,150 @@
+import { moment, setIcon } from "obsidian";
+import { getSyncStatus, InterruptedState, SyncStatus } from "./git";
+import { t } from "./i18n";
+
+export interface SyncStatusBarState {
+	autoCommit: boolean;
+	hasConflicts: boolean;
+	interrupted: InterruptedState | null;
+	/** Last successful push in this session */
+	lastPush: Date | null;
+	/** A failed push left commits waiting for a retry */
+	pushPending: boolean;
+	nextPushRetry: Date | null;
+}
+
+export interface SyncStatusBarOptions {
+	getCwd: () => string | null;
+	getGitPath: () => string;
+	/** Paths never committed; left out of the changed count */
+	isExcluded: (path: string) => boolean;
+	getState: () => SyncStatusBarState;
+	/** Runs the refresh through the plugin's git operation queue */
+	runQueued: <T>(task: () => Promise<T>) => Promise<T>;
+	onClick: (evt: MouseEvent) => void;
+}
+
+// Coalesce bursts of vault events into one status query
+const REFRESH_DELAY_MS = 1000;
+// Keep relative times ("5 minutes ago") current
+const RENDER_INTERVAL_MS = 60 * 1000;
+
+/** Status bar item summarizing branch, pending changes and sync state */
+export class SyncStatusBar {
+	private status: SyncStatus | null = null;
+	private refreshTimer: number | null = null;
+	private renderTimer: number;
+
+	constructor(private el: HTMLElement, private opts: SyncStatusBarOptions) {
+		this.el.addClass("auto-git-status-bar", "mod-clickable");
+		this.el.addEventListener("click", (evt) => this.opts.onClick(evt));
+		this.renderTimer = window.setInterval(() => this.render(), RENDER_INTERVAL_MS);
+		this.render();
+	}
+
+	scheduleRefresh(): void {
+		if (this.refreshTimer !== null) window.clearTimeout(this.refreshTimer);
+		this.refreshTimer = window.setTimeout(() => {
+			this.refreshTimer = null;
+			void this.refresh();
+		}, REFRESH_DELAY_MS);
+	}
+
+	async refresh(): Promise<void> {
+		const cwd = this.opts.getCwd();
+		if (!cwd) return;
+
+		try {
+			this.status = await this.opts.runQueued(() => getSyncStatus(cwd, this.opts.getGitPath(), this.opts.isExcluded));
+		} catch {
+			this.status = null;
+		}
+		this.render();
+	}
+
+	/** Use a status the caller already queried (e.g. right after a background fetch) */
+	setStatus(status: SyncStatus): void {
+		this.status = status;
+		this.render();
+	}
+
+	render(): void {
+		const i18n = t();
+		const state = this.opts.getState();
+		const status = this.status;
+		this.el.empty();
+
+		const branchEl = this.el.createSpan({ cls: "auto-git-status-part" });
+		setIcon(branchEl.createSpan({ cls: "auto-git-status-icon" }), "git-branch");
+		branchEl.createSpan({ text: status ? status.branch ?? i18n.statusBarDetached : i18n.statusBarUnavailable });
+
+		if (status) {
+			if (status.changedCount > 0) {
+				this.el.createSpan({ cls: "auto-git-status-part", text: i18n.statusBarChanged(status.changedCount) });
+			}
+			if (status.ahead > 0 || status.behind > 0) {
+				this.el.createSpan({
+					cls: status.behind > 0 ? "auto-git-status-part mod-remote-changes" : "auto-git-status-part",
+					text: `↑${status.ahead} ↓${status.behind}`,
+				});
+			}
+			if (state.pushPending && status.ahead > 0) {
+				const pendingEl = this.el.createSpan({ cls: "auto-git-status-part mod-warning" });
+				setIcon(pendingEl.createSpan({ cls: "auto-git-status-icon" }), "cloud-off");
+				pendingEl.createSpan({ text: i18n.statusBarPushPending(status.ahead) });
+			}
+			if (status.lastCommit) {
+				this.el.createSpan({ cls: "auto-git-status-part", text: moment(status.lastCommit).fromNow() });
+			}
+		}
+
+		if (state.hasConflicts) {
+			const conflictEl = this.el.createSpan({ cls: "auto-git-status-part mod-warning" });
+			setIcon(conflictEl.createSpan({ cls: "auto-git-status-icon" }), "alert-triangle");
+			conflictEl.createSpan({ text: i18n.statusBarBlocked });
+		} else if (state.interrupted) {
+			const interruptedEl = this.el.createSpan({ cls: "auto-git-status-part mod-warning" });
+			setIcon(interruptedEl.createSpan({ cls: "auto-git-status-icon" }), "pause-circle");
+			interruptedEl.createSpan({ text: i18n.statusBarInterrupted[state.interrupted] });
+		} else if (state.autoCommit) {
+			const autoEl = this.el.createSpan({ cls: "auto-git-status-part" });
+			setIcon(autoEl.createSpan({ cls: "auto-git-status-icon" }), "timer");
+		}
+
+		this.el.setAttribute("aria-label", this.tooltip(status, state));
+		this.el.setAttribute("data-tooltip-position", "top");
+	}
+
+	stop(): void {
+		if (this.refreshTimer !== null) window.clearTimeout(this.refreshTimer);
+		this.refreshTimer = null;
+		window.clearInterval(this.renderTimer);
+	}
+
+	private tooltip(status: SyncStatus | null, state: SyncStatusBarState): string {
+		const i18n = t();
+		const formatTime = (date: Date | null) => (date ? moment(date).format("YYYY-MM-DD HH:mm") : i18n.statusBarNever);
+
+		let autoCommit = state.autoCommit ? i18n.statusBarAutoOn : i18n.statusBarAutoOff;
+		if (state.hasConflicts) autoCommit = i18n.statusBarAutoBlocked;
+		else if (state.interrupted) autoCommit = i18n.statusBarAutoInterrupted;
+		const lines: string[] = [];
+		if (status) {
+			lines.push(
+				i18n.statusBarBranch(status.branch ?? i18n.statusBarDetached),
+				i18n.statusBarUncommitted(status.changedCount),
+				status.hasUpstream ? i18n.statusBarAheadBehind(status.ahead, status.behind) : i18n.statusBarNoUpstream,
+				i18n.statusBarLastCommit(formatTime(status.lastCommit))
+			);
+			if (status.behind > 0) lines.push(i18n.statusBarRemoteChanges);
+			if (state.pushPending && status.ahead > 0) {
+				lines.push(
+					i18n.statusBarPushQueued(status.ahead),
+					state.nextPushRetry ? i18n.statusBarNextRetry(moment(state.nextPushRetry).format("HH:mm:ss")) : i18n.statusBarRetryOnline
+				);
+			}
+		}
+		lines.push(i18n.statusBarLastPush(formatTime(state.lastPush)), i18n.statusBarAutoCommit(autoCommit));
+		return lines.join("\n");
+	}
+}
@@ -0,0 +1,108 @@
+import type { ChangedFile, DiffStat } from "./git";
+import { t } from "./i18n";
+
+export type SummaryVerb = "edit" | "update-properties" | "add" | "rename" | "move" | "delete";
+export type SummaryFileKind = "note" | "attachment";
+
+const NOTE_EXTENSIONS = ["md", "canvas"];
+
+function extensionOf(filePath: string): string {
+	const name = baseName(filePath);
+	const dot = name.lastIndexOf(".");
+	return dot <= 0 ? "" : name.slice(dot + 1).toLowerCase();
+}
+
+function baseName(filePath: string): string {
+	return filePath.slice(filePath.lastIndexOf("/") + 1);
+}
+
+function isNote(filePath: string): boolean {
+	return NOTE_EXTENSIONS.includes(extensionOf(filePath));
+}
+
+// Notes go by their title, attachments by their full file name
+function displayName(filePath: string): string {
+	const name = baseName(filePath);
+	return isNote(filePath) ? name.slice(0, name.lastIndexOf(".")) : name;
+}
+
+function topFolder(filePath: string): string {
+	const slash = filePath.indexOf("/");
+	return slash === -1 ? "" : filePath.slice(0, slash);
+}
+
+function changedLines(stats: Map<string, DiffStat>, filePath: string): number {
+	const stat = stats.get(filePath);
+	return stat ? stat.added + stat.removed : 0;
+}
+
+/** "Roadmap", "3 notes in Projects/" or "4 attachments across 2 folders (mostly x)" */
+function describeFiles(files: ChangedFile[], kind: SummaryFileKind, stats: Map<string, DiffStat>): string {
+	if (files.length === 1) return displayName(files[0].path);
+
+	const i18n = t();
+	const folders = new Set(files.map((f) => topFolder(f.path)));
+	let text = i18n.summaryFiles(files.length, kind);
+	if (folders.size > 1) {
+		text = i18n.summaryAcrossFolders(text, folders.size);
+	} else {
+		const [folder] = folders;
+		if (folder) text = i18n.summaryInFolder(text, `${folder}/`);
+	}
+
+	const top = [...files].sort((a, b) => changedLines(stats, b.path) - changedLines(stats, a.path))[0];
+	if (changedLines(stats, top.path) > 0) text = i18n.summaryMostly(text, displayName(top.path));
+	return text;
+}
+
+/** "edit Roadmap and 2 attachments", or null when nothing had this change */
+function clause(verb: SummaryVerb, files: ChangedFile[], stats: Map<string, DiffStat>): string | null {
+	const notes = files.filter((f) => isNote(f.path));
+	const attachments = files.filter((f) => !isNote(f.path));
+	const parts: string[] = [];
+	if (notes.length > 0) parts.push(describeFiles(notes, "note", stats));
+	if (attachments.length > 0) parts.push(describeFiles(attachments, "attachment", stats));
+	return parts.length > 0 ? t().summaryVerbs[verb](parts.join(t().summaryAnd)) : null;
+}
+
+function renameClause(files: ChangedFile[], stats: Map<string, DiffStat>): string | null {
+	const moved = (f: ChangedFile) => !f.origPath || baseName(f.origPath) === baseName(f.path);
+	if (files.length === 1) {
+		const [file] = files;
+		if (!file.origPath) return clause("rename", files, stats);
+		if (moved(file)) {
+			const folder = file.path.slice(0, file.path.lastIndexOf("/") + 1) || "/";
+			return t().summaryMove(displayName(file.path), folder);
+		}
+		return t().summaryRename(displayName(file.origPath), displayName(file.path));
+	}
+	return clause(files.every(moved) ? "move" : "rename", files, stats);
+}
+
+/**
+ * One-line, human-readable description of a change set, e.g.
+ * "Edit 3 notes in Projects/ (mostly Roadmap), add 2 attachments".
+ * Stats are optional; without them edits are not told apart by size or frontmatter.
+ */
+export function summarizeChanges(files: ChangedFile[], stats: Map<string, DiffStat> = new Map(), configDir?: string): string {
+	const configPrefix = configDir ? `${configDir.replace(/\/+$/, "")}/` : null;
+	const isConfig = (f: ChangedFile) => configPrefix !== null && f.path.startsWith(configPrefix);
+	const vaultFiles = files.filter((f) => !isConfig(f));
+	const withStatus = (...statuses: ChangedFile["status"][]) => vaultFiles.filter((f) => statuses.includes(f.status));
+
+	const modified = withStatus("M", "U");
+	const propertiesOnly = modified.filter((f) => isNote(f.path) && stats.get(f.path)?.frontmatterOnly);
+	const edited = modified.filter((f) => !propertiesOnly.includes(f));
+
+	const clauses = [
+		clause("edit", edited, stats),
+		clause("update-properties", propertiesOnly, stats),
+		clause("add", withStatus("A"), stats),
+		renameClause(withStatus("R"), stats),
+		clause("delete", withStatus("D"), stats),
+		files.some(isConfig) ? t().summarySettings : null,
+	].filter((c): c is string => c !== null);
+
+	const summary = clauses.join(t().summarySeparator);
+	return summary.charAt(0).toUpperCase() + summary.slice(1);
+}
@@ -1,3 +1,153 @@
-export function renderTemplate(template: string, vars: Record<string, string>): string {
-	return template.replace(/\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g, (_, key: string) => vars[key] ?? "");
+import { moment, Platform } from "obsidian";
+import * as os from "os";
+import type { ChangedFile, DiffStat } from "./git";
+import { summarizeChanges } from "./summary";
+
+export type TemplateValue = string | number | Date;
+
+interface ConditionalNode {
+	condition: string;
+	then: TemplateNode[];
+	otherwise: TemplateNode[];
+}
+
+type TemplateNode = string | { tag: string; raw: string } | ConditionalNode;
+
+// Used when a date variable has no ":FORMAT" of its own
+const DEFAULT_DATE_FORMATS: Record<string, string> = {
+	date: "YYYY-MM-DD",
+	time: "HH:mm:ss",
+};
+
+const TAG_PATTERN = /\{\{\s*(.*?)\s*\}\}/g;
+// name, optional ":FORMAT", optional "|default"
+const EXPRESSION_PATTERN = /^([a-zA-Z0-9_]+)(?::([^|]*))?(?:\|(.*))?$/;
+
+function parseTemplate(template: string): TemplateNode[] {
+	const root: TemplateNode[] = [];
+	const open: { node: ConditionalNode; inElse: boolean }[] = [];
+	const target = () => {
+		const top = open[open.length - 1];
+		if (!top) return root;
+		return top.inElse ? top.node.otherwise : top.node.then;
+	};
+
+	let last = 0;
+	for (const match of template.matchAll(TAG_PATTERN)) {
+		target().push(template.slice(last, match.index));
+		last = (match.index ?? 0) + match[0].length;
+
+		const tag = match[1];
+		const ifMatch = /^#if\s+([a-zA-Z0-9_]+)$/.exec(tag);
+		if (ifMatch) {
+			const node: ConditionalNode = { condition: ifMatch[1], then: [], otherwise: [] };
+			target().push(node);
+			open.push({ node, inElse: false });
+		} else if (tag === "else" && open.length > 0) {
+			open[open.length - 1].inElse = true;
+		} else if (tag === "/if" && open.length > 0) {
+			open.pop();
+		} else {
+			target().push({ tag, raw: match[0] });
+		}
+	}
+	// An unclosed {{#if}} simply runs to the end
+	target().push(template.slice(last));
+	return root;
+}
+
+function formatValue(name: string, value: TemplateValue | undefined, format: string | undefined): string {
+	if (value === undefined) return "";
+	if (value instanceof Date) {
+		return moment(value).format(format?.trim() || DEFAULT_DATE_FORMATS[name] || "YYYY-MM-DD HH:mm");
+	}
+	return String(value);
+}
+
+function isTruthy(value: TemplateValue | undefined): boolean {
+	if (value === undefined) return false;
+	if (typeof value === "number") return value !== 0;
+	return value instanceof Date || value !== "";
+}
+
+function renderNodes(nodes: TemplateNode[], vars: Record<string, TemplateValue>): string {
+	return nodes.map((node) => {
+		if (typeof node === "string") return node;
+		if ("condition" in node) {
+			return renderNodes(isTruthy(vars[node.condition]) ? node.then : node.otherwise, vars);
+		}
+		const match = EXPRESSION_PATTERN.exec(node.tag);
+		// Not a variable: keep the text as typed
+		if (!match) return node.raw;
+		const [, name, format, fallback] = match;
+		const text = formatValue(name, vars[name], format);
+		return text || fallback || "";
+	}).join("");
+}
+
+/**
+ * Render a commit message template. Supports {{name}}, {{date:FORMAT}} (moment
+ * format), {{name|default}} and {{#if name}}...{{else}}...{{/if}}; empty
+ * strings and 0 count as false.
+ */
+export function renderTemplate(template: string, vars: Record<string, TemplateValue>): string {
+	return renderNodes(parseTemplate(template), vars);
+}
+
+/** Whether the template refers to the variable at all, so costly ones can be skipped */
+export function templateUses(template: string, name: string): boolean {
+	return parseTemplate(template).some(function uses(node: TemplateNode): boolean {
+		if (typeof node === "string") return false;
+		if ("condition" in node) return node.condition === name || [...node.then, ...node.otherwise].some(uses);
+		return EXPRESSION_PATTERN.exec(node.tag)?.[1] === name;
+	});
+}
+
+export interface CommitTemplateContext {
+	branch: string | null;
+	/** Files listed by {{files}} before it ends with "..." */
+	fileLimit: number;
+	/** Line counts for {{summary}}; it falls back to file statuses alone without them */
+	diffStats?: Map<string, DiffStat>;
+	/** Changes in here are summarized as "update settings" */
+	configDir?: string;
+	now?: Date;
+}
+
+function platformName(): string {
+	if (Platform.isIosApp) return "iOS";
+	if (Platform.isAndroidApp) return "Android";
+	if (Platform.isMacOS) return "macOS";
+	if (Platform.isWin) return "Windows";
+	if (Platform.isLinux) return "Linux";
+	return process.platform;
+}
+
+function folderOf(filePath: string): string {
+	const slash = filePath.lastIndexOf("/");
+	return slash === -1 ? "/" : filePath.slice(0, slash);
+}
+
+/** Variables available to the commit message template */
+export function commitTemplateVars(files: ChangedFile[], context: CommitTemplateContext): Record<string, TemplateValue> {
+	const now = context.now ?? new Date();
+	const paths = files.map((f) => f.path);
+	const count = (status: ChangedFile["status"]) => files.filter((f) => f.status === status).length;
+	const limit = Math.max(context.fileLimit, 1);
+
+	return {
+		date: now,
+		time: now,
+		files: paths.slice(0, limit).join(", ") + (paths.length > limit ? "..." : ""),
+		count: paths.length,
+		added: count("A"),
+		modified: count("M") + count("U"),
+		deleted: count("D"),
+		renamed: count("R"),
+		folders: [...new Set(paths.map(folderOf))].join(", "),
+		summary: summarizeChanges(files, context.diffStats, context.configDir),
+		branch: context.branch ?? "",
+		hostname: os.hostname(),
+		platform: platformName(),
+	};
 }